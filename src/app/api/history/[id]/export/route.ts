@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRun, runDigest } from '@/lib/history';
+import { isSummaryLanguage } from '@/lib/languages';
+import { readReviewedSummary, renderReviewedSummary } from '@/lib/summary-review';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// Renders a past run again (?format=markdown&language=en&maxMessageLength=4000)
+// with the current templates; the model is not called
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const record = await getRun(id);
+  if (!record) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const language = searchParams.get('language');
+  const digest = runDigest(record, isSummaryLanguage(language) ? language : undefined);
+  const reviewed = readReviewedSummary({
+    categories: digest.categories,
+    repeats: digest.repeats,
+    dates: record.dates,
+    language: digest.language,
+    format: searchParams.get('format') || record.format,
+    maxMessageLength: searchParams.get('maxMessageLength'),
+  });
+  if ('error' in reviewed) {
+    return NextResponse.json({ error: reviewed.error, code: 'INTERNAL' }, { status: 500 });
+  }
+  return NextResponse.json(await renderReviewedSummary(reviewed));
+}
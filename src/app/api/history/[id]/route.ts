@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRun, getRun } from '@/lib/history';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// A past run with its structured result and rendered text
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const record = await getRun(id);
+  if (!record) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+  return NextResponse.json(record);
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!(await deleteRun(id))) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+  return NextResponse.json({ deleted: id });
+}
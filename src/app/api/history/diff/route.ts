@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffRuns, getRun } from '@/lib/history';
+import { isSummaryLanguage } from '@/lib/languages';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// What changed between two past runs (?from=<id>&to=<id>&language=he)
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const [from, to] = await Promise.all([
+    getRun(searchParams.get('from') || ''),
+    getRun(searchParams.get('to') || ''),
+  ]);
+  if (!from || !to) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+
+  const language = searchParams.get('language');
+  return NextResponse.json(diffRuns(from, to, isSummaryLanguage(language) ? language : undefined));
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { listRuns } from '@/lib/history';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// Past runs, newest first
+export async function GET() {
+  return NextResponse.json({ entries: await listRuns() });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// The result of a finished job, in the same shape as the analyze API's response
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  if (job.status === 'failed' && job.error) {
+    return NextResponse.json(job.error, { status: 500 });
+  }
+  if (job.status !== 'done' || !job.result) {
+    return NextResponse.json({ error: `Job is ${job.status}`, status: job.status }, { status: 409 });
+  }
+  return NextResponse.json(job.result);
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureWorkerStarted, getJob } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// Status and progress of a job. The result itself is served by /api/jobs/<id>/result.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Resume unfinished jobs if the server restarted since they were created
+  await ensureWorkerStarted();
+
+  const { id } = await params;
+  const job = await getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const { result, ...status } = job;
+  return NextResponse.json({ ...status, hasResult: Boolean(result) });
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createJob } from '@/lib/jobs';
+import { readAnalysisInput } from '@/lib/pipeline';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// Creates a background job for the uploaded files; poll GET /api/jobs/<id> for its status
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const input = await readAnalysisInput(formData);
+    if (input.files.length === 0) {
+      return NextResponse.json({ error: 'No files uploaded', code: 'NO_FILES' }, { status: 400 });
+    }
+
+    const job = await createJob(input);
+    return NextResponse.json({ id: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
+    console.error('Failed to create job:', error);
+    return NextResponse.json({
+      error: 'Failed to create job',
+      code: 'INTERNAL',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchLibrary } from '@/lib/link-library';
+import { resolveTimeWindow } from '@/lib/time-window';
+import { resolveTimeZone } from '@/lib/timezone';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// Searches the links of every processed export
+// (?q=video&group=...&category=ai-tools&domain=github.com&sender=...&from=2025-03-01&to=2025-03-31&timezone=Asia/Jerusalem&limit=50&offset=0)
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  // Whole days in the manager's timezone, like the analysis window
+  const dates = resolveTimeWindow(
+    { window: 'dates', startDate: searchParams.get('from'), endDate: searchParams.get('to') },
+    resolveTimeZone(searchParams.get('timezone'))
+  );
+  if ('error' in dates) {
+    return NextResponse.json({ error: 'Invalid date range', code: 'INVALID_TIME_WINDOW', details: dates.error }, { status: 400 });
+  }
+
+  return NextResponse.json(await searchLibrary({
+    text: searchParams.get('q') || undefined,
+    group: searchParams.get('group') || undefined,
+    category: searchParams.get('category') || undefined,
+    domain: searchParams.get('domain') || undefined,
+    sender: searchParams.get('sender') || undefined,
+    start: dates.start,
+    end: dates.end,
+    limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+    offset: parseInt(searchParams.get('offset') || '', 10) || undefined,
+  }));
+}
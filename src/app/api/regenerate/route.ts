@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { classifyError } from '@/lib/errors';
+import { readRegenerateRequest, regenerateLinks } from '@/lib/summary-review';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// The model is called, so allow the same time as an analysis
+export const maxDuration = 60;
+
+// Summarizes some links of a reviewed summary again
+// ({ categories, urls, instruction?, language }); only these links are sent to the model
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body', code: 'INVALID_REVIEW' }, { status: 400 });
+  }
+
+  const regenerate = readRegenerateRequest(body);
+  if ('error' in regenerate) {
+    return NextResponse.json({ error: regenerate.error, code: 'INVALID_REVIEW' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await regenerateLinks(regenerate));
+  } catch (error) {
+    console.error('Error regenerating links:', error);
+    const { code, status } = classifyError(error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate the links', code, details: error instanceof Error ? error.message : 'Unknown error' },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { classifyError } from '@/lib/errors';
+import { readReviewedSummary, renderReviewedSummary } from '@/lib/summary-review';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// Renders a reviewed summary ({ categories, dates, language, format, maxMessageLength? })
+// without calling the model again
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body', code: 'INVALID_REVIEW' }, { status: 400 });
+  }
+
+  const reviewed = readReviewedSummary(body);
+  if ('error' in reviewed) {
+    return NextResponse.json({ error: reviewed.error, code: 'INVALID_REVIEW' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await renderReviewedSummary(reviewed));
+  } catch (error) {
+    console.error('Error rendering the reviewed summary:', error);
+    const { code, status } = classifyError(error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Render failed', code }, { status });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LANGUAGE, isSummaryLanguage, SummaryLanguage } from '@/lib/languages';
+import {
+  DEFAULT_TEMPLATES,
+  getTemplates,
+  resetTemplates,
+  saveTemplates,
+  SummaryTemplates,
+  TEMPLATE_FIELDS,
+  TEMPLATE_NAMES,
+} from '@/lib/summary-templates';
+
+export const dynamic = 'force-dynamic'; // No caching
+
+// Templates are kept per digest language (?language=en); Hebrew by default
+function requestLanguage(request: NextRequest): SummaryLanguage {
+  const language = request.nextUrl.searchParams.get('language');
+  return isSummaryLanguage(language) ? language : DEFAULT_LANGUAGE;
+}
+
+// The current templates, the defaults and the fields each template can use
+export async function GET(request: NextRequest) {
+  const language = requestLanguage(request);
+  return NextResponse.json({
+    language,
+    templates: await getTemplates(language),
+    defaults: DEFAULT_TEMPLATES[language],
+    fields: TEMPLATE_FIELDS,
+  });
+}
+
+// Saves the templates in the body ({ header?, category?, link? })
+export async function PUT(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body', code: 'INVALID_TEMPLATE' }, { status: 400 });
+  }
+
+  const changes: Partial<SummaryTemplates> = {};
+  for (const name of TEMPLATE_NAMES) {
+    if (typeof body[name] === 'string') {
+      changes[name] = body[name] as string;
+    }
+  }
+
+  const language = requestLanguage(request);
+  const { templates, errors } = await saveTemplates(changes, language);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid template', code: 'INVALID_TEMPLATE', details: errors }, { status: 400 });
+  }
+  return NextResponse.json({ language, templates });
+}
+
+// Goes back to the default templates
+export async function DELETE(request: NextRequest) {
+  const language = requestLanguage(request);
+  return NextResponse.json({ language, templates: await resetTemplates(language) });
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { getLanguage, SummaryLanguage } from "@/lib/languages";
+import ReviewEditor from "./ReviewEditor";
+import type { Digest, DigestResult } from "./types";
+
+interface DigestResultsProps {
+  result: DigestResult;
+  maxMessageLength: number; // Used again when a split summary is reviewed
+  onError: (message: string) => void;
+}
+
+// The finished summary: one tab per language, copy buttons and the review step
+export default function DigestResults({ result, maxMessageLength, onError }: DigestResultsProps) {
+  // The tabs keep the reviewed version of each language
+  const [digests, setDigests] = useState<Digest[]>(result.digests);
+  const [activeLanguage, setActiveLanguage] = useState<SummaryLanguage>(result.digests[0].language);
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewNotice, setReviewNotice] = useState<string>("");
+  const [copySuccess, setCopySuccess] = useState(false);
+  const [copiedPart, setCopiedPart] = useState<number | null>(null);
+
+  const activeDigest = digests.find((digest) => digest.language === activeLanguage) || digests[0];
+  const parts = activeDigest.parts || [];
+  const stats = activeDigest.stats;
+  const direction = activeDigest.direction;
+  const canReview = Boolean(activeDigest.structured?.categories.length && result.dates);
+
+  // Reset copy success message after 3 seconds
+  useEffect(() => {
+    if (copySuccess) {
+      const timer = setTimeout(() => {
+        setCopySuccess(false);
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [copySuccess]);
+
+  useEffect(() => {
+    if (copiedPart !== null) {
+      const timer = setTimeout(() => {
+        setCopiedPart(null);
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [copiedPart]);
+
+  // Shows the summary of one language
+  const showDigest = (language: SummaryLanguage) => {
+    setActiveLanguage(language);
+    setReviewing(false);
+    setReviewNotice("");
+    setCopySuccess(false);
+    setCopiedPart(null);
+  };
+
+  const applyReviewed = (reviewed: Digest) => {
+    setDigests(digests.map((digest) => digest.language === reviewed.language ? reviewed : digest));
+    showDigest(reviewed.language);
+    setReviewNotice("הסיכום עודכן");
+  };
+
+  const handleCopyToClipboard = () => {
+    navigator.clipboard.writeText(activeDigest.summary)
+      .then(() => {
+        setCopySuccess(true);
+      })
+      .catch(() => {
+        onError("שגיאה בהעתקה ללוח");
+      });
+  };
+
+  const handleCopyPart = (index: number) => {
+    navigator.clipboard.writeText(parts[index])
+      .then(() => {
+        setCopiedPart(index);
+      })
+      .catch(() => {
+        onError("שגיאה בהעתקה ללוח");
+      });
+  };
+
+  return (
+    <div className="bg-gray-800 shadow-md rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-bold mb-4 text-white">סיכום הלינקים</h2>
+      {/* One tab per language when several digests were made from the same links */}
+      {digests.length > 1 && (
+        <div className="flex gap-2 mb-4">
+          {digests.map((digest) => (
+            <button
+              key={digest.language}
+              onClick={() => showDigest(digest.language)}
+              className={`py-1 px-3 rounded text-sm text-white ${
+                activeDigest.language === digest.language ? "bg-blue-600" : "bg-gray-600 hover:bg-gray-700"
+              }`}
+            >
+              {getLanguage(digest.language).label}
+            </button>
+          ))}
+        </div>
+      )}
+      {stats && (
+        <p className={`text-sm mb-4 ${stats.linksProcessed < stats.linksFound ? "text-yellow-300" : "text-gray-300"}`}>
+          עובדו {stats.linksProcessed} מתוך {stats.linksFound} לינקים
+          {stats.fromCache > 0 && ` (${stats.fromCache} מהמטמון)`}
+          {stats.fallback > 0 && ` · ${stats.fallback} לינקים מוצגים עם תיאור בסיסי בלבד`}
+        </p>
+      )}
+      {/* The review editor takes the summary's place; a split summary is shown
+          message by message, each with its own copy button */}
+      {reviewing && result.dates ? (
+        <ReviewEditor
+          key={activeDigest.language}
+          digest={activeDigest}
+          dates={result.dates}
+          format={result.format}
+          maxMessageLength={parts.length > 0 ? maxMessageLength : undefined}
+          onApply={applyReviewed}
+          onCancel={() => showDigest(activeDigest.language)}
+        />
+      ) : parts.length > 1 ? (
+        <div className="space-y-4 mb-4">
+          {parts.map((part, index) => (
+            <div key={index} className="border border-gray-600 rounded p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-200">הודעה {index + 1}/{parts.length} ({part.length} תווים)</h3>
+                <button
+                  onClick={() => handleCopyPart(index)}
+                  className={`py-1 px-3 rounded text-sm ${
+                    copiedPart === index ? "bg-green-600 hover:bg-green-700" : "bg-gray-600 hover:bg-gray-700"
+                  } text-white transition-colors duration-300`}
+                >
+                  {copiedPart === index ? "הועתק!" : "העתק"}
+                </button>
+              </div>
+              <div
+                className="whitespace-pre-wrap text-white"
+                style={{ direction, textAlign: direction === "rtl" ? 'right' : 'left', unicodeBidi: 'embed' }}
+              >
+                {part}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* HTML is shown as its source, ready to paste into the newsletter */}
+          <div
+            className={`whitespace-pre-wrap text-white ${result.format === "html" ? "font-mono text-sm" : ""}`}
+            style={{
+              direction: result.format === "html" ? 'ltr' : direction,
+              textAlign: result.format === "html" || direction === "ltr" ? 'left' : 'right',
+              unicodeBidi: 'embed'
+            }}
+          >
+            {activeDigest.summary}
+          </div>
+        </>
+      )}
+      <div className="mt-4 flex items-center gap-2">
+        <button
+          onClick={handleCopyToClipboard}
+          className={`py-2 px-4 rounded flex items-center gap-2 ${
+            copySuccess
+              ? "bg-green-600 hover:bg-green-700"
+              : "bg-gray-600 hover:bg-gray-700"
+          } text-white transition-colors duration-300`}
+        >
+          {copySuccess ? (
+            <>
+              <span>הועתק בהצלחה!</span>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            </>
+          ) : (
+            "העתק לקליפבורד"
+          )}
+        </button>
+        {canReview && !reviewing && (
+          <button
+            onClick={() => setReviewing(true)}
+            className="py-2 px-4 rounded bg-gray-600 hover:bg-gray-700 text-white"
+          >
+            סקירה ועריכה
+          </button>
+        )}
+        {reviewNotice && <span className="text-sm text-gray-300">{reviewNotice}</span>}
+        {result.historyId && (
+          <Link href={`/history/${result.historyId}`} className="text-sm text-blue-400 hover:text-blue-300">
+            נשמר בהיסטוריה
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import { ERROR_MESSAGES, ErrorCode } from "@/lib/errors";
+import type { StructuredCategory, StructuredLink } from "@/lib/structured-summary";
+import type { SummaryFormat } from "@/lib/summary-formats";
+import { categoryName, getCategory, TAXONOMY } from "@/lib/taxonomy";
+import type { Digest } from "./types";
+
+interface ReviewEditorProps {
+  digest: Digest;
+  dates: { from: string; to: string };
+  format: SummaryFormat;
+  maxMessageLength?: number; // Set when the summary is split into messages
+  onApply: (reviewed: Digest) => void;
+  onCancel: () => void;
+}
+
+// Review step: the structured summary as editable cards, grouped by category
+export default function ReviewEditor({ digest, dates, format, maxMessageLength, onApply, onCancel }: ReviewEditorProps) {
+  const [reviewCategories, setReviewCategories] = useState<StructuredCategory[]>(digest.structured?.categories || []);
+  const [excludedUrls, setExcludedUrls] = useState<string[]>([]);
+  const [draggedLink, setDraggedLink] = useState<{ category: number; link: number } | null>(null);
+  const [reviewStatus, setReviewStatus] = useState<string>("");
+  const [regenerateUrls, setRegenerateUrls] = useState<string[]>([]);
+  const [regenerateInstruction, setRegenerateInstruction] = useState<string>("");
+  const [regenerating, setRegenerating] = useState(false);
+
+  // Changes one link of the summary under review
+  const updateReviewLink = (categoryIndex: number, linkIndex: number, changes: Partial<StructuredLink>) => {
+    setReviewCategories(reviewCategories.map((category, index) => index !== categoryIndex ? category : {
+      ...category,
+      links: category.links.map((link, current) => current === linkIndex ? { ...link, ...changes } : link),
+    }));
+  };
+
+  const renameReviewCategory = (categoryIndex: number, name: string) => {
+    setReviewCategories(reviewCategories.map((category, index) => index === categoryIndex ? { ...category, name } : category));
+  };
+
+  // Moves a link to a position in a category (by id). A category that isn't in
+  // the summary yet is added in taxonomy order.
+  const moveReviewLink = (from: { category: number; link: number }, categoryId: string, position?: number) => {
+    const link = reviewCategories[from.category].links[from.link];
+    let categories = reviewCategories.map((category, index) => index !== from.category ? category : {
+      ...category,
+      links: category.links.filter((_, current) => current !== from.link),
+    });
+    if (!categories.some((category) => category.id === categoryId)) {
+      const added = { id: categoryId, name: categoryName(categoryId, digest.language), emoji: getCategory(categoryId).emoji, links: [] };
+      const order = (id: string) => TAXONOMY.findIndex((category) => category.id === id);
+      categories = [...categories, added].sort((a, b) => order(a.id) - order(b.id));
+    }
+    setReviewCategories(categories.map((category) => {
+      if (category.id !== categoryId) return category;
+      const links = [...category.links];
+      links.splice(position === undefined ? links.length : position, 0, link);
+      return { ...category, links };
+    }));
+  };
+
+  // Dropping a dragged link on another link puts it in that link's place
+  const dropReviewLink = (categoryIndex: number, linkIndex?: number) => {
+    if (!draggedLink) return;
+    const sameCategory = draggedLink.category === categoryIndex;
+    const position = linkIndex !== undefined && sameCategory && draggedLink.link < linkIndex ? linkIndex - 1 : linkIndex;
+    moveReviewLink(draggedLink, reviewCategories[categoryIndex].id, position);
+    setDraggedLink(null);
+  };
+
+  const toggleExcludedLink = (url: string) => {
+    setExcludedUrls(excludedUrls.includes(url) ? excludedUrls.filter((excluded) => excluded !== url) : [...excludedUrls, url]);
+  };
+
+  // Renders the reviewed summary again on the server, without calling the model
+  const applyReview = async (reviewed: StructuredCategory[] = reviewCategories) => {
+    setReviewStatus("מעדכן...");
+    const categories = reviewed
+      .map((category) => ({ ...category, links: category.links.filter((link) => !excludedUrls.includes(link.url)) }))
+      .filter((category) => category.links.length > 0);
+    try {
+      const response = await fetch('/api/render', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          categories,
+          repeats: digest.structured?.repeated,
+          dates,
+          language: digest.language,
+          format,
+          maxMessageLength,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setReviewStatus(data.code && ERROR_MESSAGES[data.code as ErrorCode] ? ERROR_MESSAGES[data.code as ErrorCode] : data.error || "עדכון הסיכום נכשל");
+        return;
+      }
+      onApply({ ...digest, summary: data.summary, parts: data.parts, structured: { ...digest.structured, categories } });
+    } catch (error) {
+      console.error('Failed to render the reviewed summary:', error);
+      setReviewStatus("עדכון הסיכום נכשל");
+    }
+  };
+
+  const toggleRegenerateLink = (url: string) => {
+    setRegenerateUrls(regenerateUrls.includes(url) ? regenerateUrls.filter((selected) => selected !== url) : [...regenerateUrls, url]);
+  };
+
+  // Summarizes only the given links again (with the optional instruction) and
+  // renders the summary with the new descriptions
+  const regenerateLinks = async (urls: string[]) => {
+    if (urls.length === 0) return;
+    setRegenerating(true);
+    setReviewStatus(`מנסח מחדש ${urls.length} לינקים...`);
+    try {
+      const response = await fetch('/api/regenerate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          categories: reviewCategories,
+          urls,
+          instruction: regenerateInstruction,
+          language: digest.language,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setReviewStatus(data.code && ERROR_MESSAGES[data.code as ErrorCode] ? ERROR_MESSAGES[data.code as ErrorCode] : data.error || "הניסוח מחדש נכשל");
+        return;
+      }
+      setRegenerateUrls([]);
+      await applyReview(data.categories);
+    } catch (error) {
+      console.error('Failed to regenerate links:', error);
+      setReviewStatus("הניסוח מחדש נכשל");
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 mb-4" dir={digest.direction}>
+      <p className="text-sm text-gray-300">
+        גרור לינקים בין קטגוריות או בתוך קטגוריה, ערוך את השם, התיאור ונקודות המפתח (שורה לכל נקודה), והסר לינקים שלא צריכים להופיע. לחיצה על &quot;עדכן סיכום&quot; בונה את ההודעה מחדש בלי לפנות שוב למודל.
+      </p>
+      {/* Only the selected links are sent to the model again */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          value={regenerateInstruction}
+          onChange={(e) => setRegenerateInstruction(e.target.value)}
+          placeholder='הנחיה לניסוח מחדש (לא חובה), למשל "קצר יותר" או "התמקד במחיר"'
+          className="flex-1 min-w-[16rem] p-2 border border-gray-600 rounded bg-gray-700 text-white"
+        />
+        <button
+          type="button"
+          onClick={() => regenerateLinks(regenerateUrls)}
+          disabled={regenerating || regenerateUrls.length === 0}
+          className="py-2 px-4 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-600"
+        >
+          נסח מחדש את המסומנים ({regenerateUrls.length})
+        </button>
+      </div>
+      {reviewCategories.map((category, categoryIndex) => (
+        <div
+          key={category.id}
+          className="border border-gray-600 rounded p-4"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => dropReviewLink(categoryIndex)}
+        >
+          <div className="flex items-center gap-2 mb-3">
+            <span>{category.emoji}</span>
+            <input
+              value={category.name}
+              onChange={(e) => renameReviewCategory(categoryIndex, e.target.value)}
+              className="flex-1 p-1 border border-gray-600 rounded bg-gray-700 text-white font-bold"
+              aria-label="שם הקטגוריה"
+            />
+            <span className="text-xs text-gray-400">{category.links.length} לינקים</span>
+          </div>
+          {category.links.length === 0 && (
+            <p className="text-sm text-gray-500">אין לינקים - הקטגוריה לא תופיע בסיכום</p>
+          )}
+          <div className="space-y-3">
+            {category.links.map((link, linkIndex) => {
+              const excluded = excludedUrls.includes(link.url);
+              return (
+                <div
+                  key={link.url}
+                  draggable
+                  onDragStart={() => setDraggedLink({ category: categoryIndex, link: linkIndex })}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.stopPropagation();
+                    dropReviewLink(categoryIndex, linkIndex);
+                  }}
+                  className={`bg-gray-700 rounded p-3 cursor-move ${excluded ? "opacity-50" : ""}`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <input
+                      value={link.name}
+                      onChange={(e) => updateReviewLink(categoryIndex, linkIndex, { name: e.target.value })}
+                      className="flex-1 p-1 border border-gray-600 rounded bg-gray-800 text-white"
+                      aria-label="שם"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => moveReviewLink({ category: categoryIndex, link: linkIndex }, category.id, linkIndex - 1)}
+                      disabled={linkIndex === 0}
+                      className="px-2 text-gray-300 disabled:opacity-30"
+                      aria-label="הזז למעלה"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveReviewLink({ category: categoryIndex, link: linkIndex }, category.id, linkIndex + 1)}
+                      disabled={linkIndex === category.links.length - 1}
+                      className="px-2 text-gray-300 disabled:opacity-30"
+                      aria-label="הזז למטה"
+                    >
+                      ▼
+                    </button>
+                    <label className="flex items-center gap-1 text-sm text-gray-300">
+                      <input type="checkbox" checked={excluded} onChange={() => toggleExcludedLink(link.url)} />
+                      הסר
+                    </label>
+                    <label className="flex items-center gap-1 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={regenerateUrls.includes(link.url)}
+                        onChange={() => toggleRegenerateLink(link.url)}
+                      />
+                      סמן
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => regenerateLinks([link.url])}
+                      disabled={regenerating}
+                      className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                      נסח מחדש
+                    </button>
+                  </div>
+                  <div className="text-xs text-gray-400 mb-2" dir="ltr">{link.url}</div>
+                  <textarea
+                    value={link.description}
+                    onChange={(e) => updateReviewLink(categoryIndex, linkIndex, { description: e.target.value })}
+                    rows={2}
+                    className="block w-full p-1 mb-2 border border-gray-600 rounded bg-gray-800 text-white text-sm"
+                    aria-label="תיאור"
+                  />
+                  <textarea
+                    value={link.keyPoints.join("\n")}
+                    onChange={(e) => updateReviewLink(categoryIndex, linkIndex, { keyPoints: e.target.value.split("\n") })}
+                    rows={Math.max(2, link.keyPoints.length)}
+                    placeholder="נקודות מפתח, שורה לכל נקודה"
+                    className="block w-full p-1 mb-2 border border-gray-600 rounded bg-gray-800 text-white text-sm"
+                    aria-label="נקודות מפתח"
+                  />
+                  <select
+                    value={category.id}
+                    onChange={(e) => moveReviewLink({ category: categoryIndex, link: linkIndex }, e.target.value)}
+                    className="p-1 border border-gray-600 rounded bg-gray-800 text-white text-sm"
+                    aria-label="קטגוריה"
+                  >
+                    {TAXONOMY.map(({ id }) => (
+                      <option key={id} value={id}>{getCategory(id).emoji} {categoryName(id, digest.language)}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => applyReview()}
+          className="py-2 px-4 rounded bg-blue-600 hover:bg-blue-700 text-white"
+        >
+          עדכן סיכום
+        </button>
+        <button
+          onClick={onCancel}
+          className="py-2 px-4 rounded bg-gray-600 hover:bg-gray-700 text-white"
+        >
+          בטל שינויים
+        </button>
+        {reviewStatus && <span className="text-sm text-gray-300">{reviewStatus}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getLanguage, LANGUAGES, SummaryLanguage } from "@/lib/languages";
+import type { SummaryTemplates, TemplateName } from "@/lib/summary-templates";
+
+// GET /api/templates
+interface TemplatesResponse {
+  templates: SummaryTemplates;
+  defaults: SummaryTemplates;
+  fields: Record<TemplateName, Record<string, string>>;
+}
+
+const TEMPLATE_TITLES: Record<TemplateName, string> = {
+  header: "כותרת הסיכום",
+  category: "כותרת קטגוריה",
+  link: "לינק",
+  repeat: "לינק שנזכר שוב",
+};
+
+interface TemplatesDialogProps {
+  language: SummaryLanguage;
+  onLanguageChange: (language: SummaryLanguage) => void;
+  onClose: () => void;
+}
+
+// Editor of the summary templates of one language
+export default function TemplatesDialog({ language, onLanguageChange, onClose }: TemplatesDialogProps) {
+  const [templateData, setTemplateData] = useState<TemplatesResponse | null>(null);
+  const [templateDrafts, setTemplateDrafts] = useState<SummaryTemplates | null>(null);
+  const [templateErrors, setTemplateErrors] = useState<string[]>([]);
+  const [templateStatus, setTemplateStatus] = useState<string>("");
+
+  // Loads the stored templates of the language into the editor
+  const loadTemplates = useCallback(async (selected: SummaryLanguage) => {
+    setTemplateDrafts(null);
+    setTemplateErrors([]);
+    setTemplateStatus("");
+    try {
+      const response = await fetch(`/api/templates?language=${selected}`);
+      const data: TemplatesResponse = await response.json();
+      setTemplateData(data);
+      setTemplateDrafts(data.templates);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+      setTemplateStatus("טעינת התבניות נכשלה");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates(language);
+  }, [language, loadTemplates]);
+
+  // Saves the edited templates (method PUT), or goes back to the defaults (DELETE)
+  const submitTemplates = async (method: "PUT" | "DELETE") => {
+    setTemplateErrors([]);
+    setTemplateStatus("שומר...");
+    try {
+      const response = await fetch(`/api/templates?language=${language}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === "PUT" ? JSON.stringify(templateDrafts) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setTemplateErrors(Array.isArray(data.details) ? data.details : [data.error || "שמירת התבניות נכשלה"]);
+        setTemplateStatus("");
+        return;
+      }
+      setTemplateDrafts(data.templates);
+      setTemplateStatus(method === "PUT" ? "התבניות נשמרו - הן ישמשו בסיכום הבא" : "התבניות הוחזרו לברירת המחדל");
+    } catch (error) {
+      console.error('Failed to save templates:', error);
+      setTemplateStatus("שמירת התבניות נכשלה");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 text-white rounded-lg shadow-xl max-w-3xl w-full p-6 relative overflow-y-auto max-h-[90vh] border border-gray-700">
+        <h2 className="text-xl font-bold mb-2">תבניות הסיכום</h2>
+        <p className="text-sm text-gray-300 mb-4">
+          {"שדות נכתבים כ-{{name}}, קטעים מותנים כ-{{#if senders}}...{{/if}}, רשימות כ-{{#each keyPoints}}{{this}}{{/each}} והדגשה כ-{{#bold}}...{{/bold}}. מחיקת שורה מהתבנית מסירה את השדה מהסיכום."}
+        </p>
+
+        <div className="flex items-center gap-2 mb-4 text-sm">
+          <label htmlFor="template-language">שפה:</label>
+          <select
+            id="template-language"
+            value={language}
+            onChange={(e) => onLanguageChange(e.target.value as SummaryLanguage)}
+            className="p-1 border border-gray-600 rounded bg-gray-700 text-white"
+          >
+            {LANGUAGES.map(({ code, label }) => (
+              <option key={code} value={code}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {!templateDrafts ? (
+          <p className="text-gray-300">{templateStatus || "טוען..."}</p>
+        ) : (
+          <div className="space-y-6">
+            {(Object.keys(TEMPLATE_TITLES) as TemplateName[]).map((name) => (
+              <div key={name}>
+                <label htmlFor={`template-${name}`} className="block text-sm font-medium mb-1">
+                  {TEMPLATE_TITLES[name]}
+                </label>
+                <textarea
+                  id={`template-${name}`}
+                  value={templateDrafts[name]}
+                  onChange={(e) => setTemplateDrafts({ ...templateDrafts, [name]: e.target.value })}
+                  rows={name === "link" ? 14 : 4}
+                  className="block w-full p-2 border border-gray-600 rounded bg-gray-700 text-white font-mono text-sm"
+                  dir={getLanguage(language).direction}
+                />
+                {templateData && (
+                  <p className="mt-1 text-xs text-gray-400">
+                    {Object.entries(templateData.fields[name]).map(([field, description]) => `{{${field}}} - ${description}`).join(" · ")}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {templateErrors.length > 0 && (
+          <ul className="mt-4 text-sm text-red-400" dir="ltr">
+            {templateErrors.map((templateError) => (
+              <li key={templateError}>{templateError}</li>
+            ))}
+          </ul>
+        )}
+        {templateStatus && templateDrafts && <p className="mt-4 text-sm text-gray-300">{templateStatus}</p>}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={() => submitTemplates("DELETE")}
+            className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition"
+          >
+            חזרה לברירת המחדל
+          </button>
+          <button
+            onClick={() => submitTemplates("PUT")}
+            disabled={!templateDrafts}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition disabled:bg-gray-600"
+          >
+            שמור
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition"
+          >
+            סגור
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
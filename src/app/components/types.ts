@@ -0,0 +1,22 @@
+import type { SummaryLanguage } from "@/lib/languages";
+import type { RepeatedLink, StructuredCategory } from "@/lib/structured-summary";
+import type { SummaryStats } from "@/lib/summarizer";
+import type { SummaryFormat } from "@/lib/summary-formats";
+
+// The summary in one language
+export interface Digest {
+  language: SummaryLanguage;
+  direction: "rtl" | "ltr";
+  summary: string;
+  parts?: string[];
+  stats?: SummaryStats;
+  structured?: { categories: StructuredCategory[]; repeated?: RepeatedLink[] };
+}
+
+// A finished analysis as the results show it
+export interface DigestResult {
+  digests: Digest[]; // One per language, the first shown first
+  format: SummaryFormat;
+  dates: { from: string; to: string } | null; // Needed to render the summary again after review
+  historyId: string | null; // The run in the history archive
+}
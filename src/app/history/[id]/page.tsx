@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import type { HistoryRecord } from "@/lib/history";
+import { getLanguage, SummaryLanguage } from "@/lib/languages";
+import { formatCost } from "@/lib/model-pricing";
+import { SUMMARY_FORMATS, SummaryFormat } from "@/lib/summary-formats";
+
+// GET /api/history/<id>/export
+interface ExportResult {
+  summary: string;
+  format: SummaryFormat;
+  language: SummaryLanguage;
+}
+
+export default function HistoryRunPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [record, setRecord] = useState<HistoryRecord | null>(null);
+  const [error, setError] = useState<string>("");
+  const [language, setLanguage] = useState<SummaryLanguage | null>(null);
+  const [format, setFormat] = useState<SummaryFormat | null>(null);
+  const [exported, setExported] = useState<ExportResult | null>(null);
+  const [copySuccess, setCopySuccess] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/history/${id}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          setError("הסיכום לא נמצא");
+          return;
+        }
+        const data: HistoryRecord = await response.json();
+        setRecord(data);
+        setLanguage(data.digests[0].language);
+        setFormat(data.format);
+      })
+      .catch((fetchError) => {
+        console.error("Failed to load the run:", fetchError);
+        setError("טעינת הסיכום נכשלה");
+      });
+  }, [id]);
+
+  // The stored text in the run's own format; any other format is rendered again on the server
+  useEffect(() => {
+    if (!record || !language || !format) return;
+    setCopySuccess(false);
+    const digest = record.digests.find((item) => item.language === language) || record.digests[0];
+    if (format === record.format) {
+      setExported({ summary: digest.summary, format, language: digest.language });
+      return;
+    }
+    fetch(`/api/history/${record.id}/export?format=${format}&language=${language}`)
+      .then((response) => response.json())
+      .then((data: ExportResult) => setExported(data))
+      .catch((exportError) => {
+        console.error("Failed to export the run:", exportError);
+        setError("הייצוא נכשל");
+      });
+  }, [record, language, format]);
+
+  const handleCopy = () => {
+    if (!exported) return;
+    navigator.clipboard.writeText(exported.summary)
+      .then(() => setCopySuccess(true))
+      .catch(() => setError("שגיאה בהעתקה ללוח"));
+  };
+
+  const handleDelete = async () => {
+    if (!record || !window.confirm("למחוק את הסיכום מההיסטוריה?")) return;
+    const response = await fetch(`/api/history/${record.id}`, { method: "DELETE" });
+    if (response.ok) {
+      router.push("/history");
+    } else {
+      setError("המחיקה נכשלה");
+    }
+  };
+
+  const direction = exported ? getLanguage(exported.language).direction : "rtl";
+
+  return (
+    <main dir="rtl" className="min-h-screen p-4 md:p-8 lg:p-12 max-w-4xl mx-auto bg-black text-white">
+      <h1 className="text-3xl font-bold mb-2 text-center text-white">סיכום שמור</h1>
+      <div className="text-center mb-6 text-sm">
+        <Link href="/history" className="text-blue-400 hover:text-blue-300">חזרה להיסטוריה</Link>
+      </div>
+
+      {error && <p className="text-red-400 mb-4">{error}</p>}
+
+      {!record ? (
+        !error && <p className="text-gray-300">טוען...</p>
+      ) : (
+        <>
+          <div className="bg-gray-800 shadow-md rounded-lg p-6 mb-8 border border-gray-700 text-sm text-gray-300 space-y-1">
+            <div>נוצר: {new Date(record.createdAt).toLocaleString("he-IL")}</div>
+            <div>
+              טווח: {record.dates.from === record.dates.to ? record.dates.from : `${record.dates.from} - ${record.dates.to}`}
+              {" "}({record.timeZone})
+            </div>
+            <div>קבצים: {record.fileNames.join(", ")}</div>
+            <div>
+              {record.run.messagesScanned} הודעות נסרקו, {record.run.messagesInRange} בטווח · {record.linkCount} לינקים ב-{record.categoryCount} קטגוריות
+            </div>
+            {record.message && <div className="text-yellow-300">{record.message}</div>}
+            <div>
+              מודל: {record.model} ({record.provider}) · {record.usage.promptTokens + record.usage.completionTokens} טוקנים · {formatCost(record.costUsd)}
+            </div>
+          </div>
+
+          <div className="bg-gray-800 shadow-md rounded-lg p-6 border border-gray-700">
+            <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+              {record.digests.length > 1 && (
+                <label className="flex items-center gap-2">
+                  שפה:
+                  <select
+                    value={language || ""}
+                    onChange={(e) => setLanguage(e.target.value as SummaryLanguage)}
+                    className="p-1 border border-gray-600 rounded bg-gray-700 text-white"
+                  >
+                    {record.digests.map((digest) => (
+                      <option key={digest.language} value={digest.language}>{getLanguage(digest.language).label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                פורמט:
+                <select
+                  value={format || ""}
+                  onChange={(e) => setFormat(e.target.value as SummaryFormat)}
+                  className="p-1 border border-gray-600 rounded bg-gray-700 text-white"
+                >
+                  {SUMMARY_FORMATS.map((option) => (
+                    <option key={option.format} value={option.format}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {exported && (
+              <div
+                className={`whitespace-pre-wrap text-white ${exported.format === "html" ? "font-mono text-sm" : ""}`}
+                style={{
+                  direction: exported.format === "html" ? "ltr" : direction,
+                  textAlign: exported.format === "html" || direction === "ltr" ? "left" : "right",
+                  unicodeBidi: "embed",
+                }}
+              >
+                {exported.summary}
+              </div>
+            )}
+
+            <div className="mt-4 flex items-center gap-2">
+              <button
+                onClick={handleCopy}
+                className={`py-2 px-4 rounded ${copySuccess ? "bg-green-600 hover:bg-green-700" : "bg-gray-600 hover:bg-gray-700"} text-white`}
+              >
+                {copySuccess ? "הועתק בהצלחה!" : "העתק לקליפבורד"}
+              </button>
+              <button
+                onClick={handleDelete}
+                className="py-2 px-4 rounded bg-red-700 hover:bg-red-800 text-white"
+              >
+                מחק
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
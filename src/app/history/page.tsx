@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { DiffLink, HistoryEntry, RunDiff } from "@/lib/history";
+import { getLanguage } from "@/lib/languages";
+import { formatCost } from "@/lib/model-pricing";
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString("he-IL");
+
+const DIFF_FIELD_LABELS: Record<keyof DiffLink, string> = {
+  url: "כתובת",
+  name: "שם",
+  category: "קטגוריה",
+  description: "תיאור",
+  timesShared: "מספר שיתופים",
+};
+
+export default function HistoryPage() {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string>("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<RunDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/history")
+      .then((response) => response.json())
+      .then((data: { entries: HistoryEntry[] }) => setEntries(data.entries))
+      .catch((fetchError) => {
+        console.error("Failed to load the history:", fetchError);
+        setError("טעינת ההיסטוריה נכשלה");
+      });
+  }, []);
+
+  // Up to two runs are selected for comparison; a third replaces the older pick
+  const toggleSelected = (id: string) => {
+    setDiff(null);
+    if (selected.includes(id)) {
+      setSelected(selected.filter((selectedId) => selectedId !== id));
+    } else {
+      setSelected([...selected, id].slice(-2));
+    }
+  };
+
+  // Compares the older selected run with the newer one
+  const compare = async () => {
+    if (!entries || selected.length !== 2) return;
+    const [to, from] = entries.filter((entry) => selected.includes(entry.id)).map((entry) => entry.id);
+    setComparing(true);
+    try {
+      const response = await fetch(`/api/history/diff?from=${from}&to=${to}`);
+      if (!response.ok) {
+        setError("ההשוואה נכשלה");
+        return;
+      }
+      setDiff(await response.json());
+    } catch (compareError) {
+      console.error("Failed to compare runs:", compareError);
+      setError("ההשוואה נכשלה");
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const renderDiffLinks = (title: string, links: DiffLink[], color: string) => (
+    <div>
+      <h3 className={`font-medium mb-2 ${color}`}>{title} ({links.length})</h3>
+      <ul className="space-y-1 text-sm text-gray-300">
+        {links.map((link) => (
+          <li key={link.url}>
+            {link.category} · {link.name} <span className="text-gray-500" dir="ltr">{link.url}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const renderDiff = () => {
+    if (!diff) return null;
+
+    return (
+      <div className="bg-gray-800 shadow-md rounded-lg p-6 mb-8 border border-gray-700 space-y-4">
+        <h2 className="text-xl font-bold">
+          השוואה: {formatDateTime(diff.from.createdAt)} ← {formatDateTime(diff.to.createdAt)}
+        </h2>
+        {!diff.sameWindow && (
+          <p className="text-sm text-yellow-300">שתי הריצות לא כיסו את אותו טווח זמן, כך שחלק מההבדלים נובעים מהטווח.</p>
+        )}
+        <p className="text-sm text-gray-300">{diff.unchanged} לינקים לא השתנו</p>
+        {renderDiffLinks("נוספו", diff.added, "text-green-400")}
+        {renderDiffLinks("הוסרו", diff.removed, "text-red-400")}
+        <div>
+          <h3 className="font-medium mb-2 text-yellow-300">השתנו ({diff.changed.length})</h3>
+          <ul className="space-y-3 text-sm text-gray-300">
+            {diff.changed.map(({ before, after, fields }) => (
+              <li key={after.url}>
+                <div>{after.name} <span className="text-gray-500" dir="ltr">{after.url}</span></div>
+                {fields.map((field) => (
+                  <div key={field} className="mr-4">
+                    {DIFF_FIELD_LABELS[field]}: <span className="line-through text-gray-500">{String(before[field])}</span> ← {String(after[field])}
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <main dir="rtl" className="min-h-screen p-4 md:p-8 lg:p-12 max-w-4xl mx-auto bg-black text-white">
+      <h1 className="text-3xl font-bold mb-2 text-center text-white">היסטוריית סיכומים</h1>
+      <div className="text-center mb-6 text-sm">
+        <Link href="/" className="text-blue-400 hover:text-blue-300">חזרה לסיכום חדש</Link>
+      </div>
+
+      {error && <p className="text-red-400 mb-4">{error}</p>}
+
+      {renderDiff()}
+
+      <div className="bg-gray-800 shadow-md rounded-lg p-6 mb-8 border border-gray-700">
+        <div className="flex items-center justify-between mb-4">
+          <p className="text-sm text-gray-300">סמן שתי ריצות כדי לראות מה השתנה ביניהן.</p>
+          <button
+            onClick={compare}
+            disabled={selected.length !== 2 || comparing}
+            className="py-2 px-4 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-600"
+          >
+            {comparing ? "משווה..." : "השווה"}
+          </button>
+        </div>
+
+        {!entries ? (
+          <p className="text-gray-300">טוען...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-300">עדיין אין סיכומים שמורים</p>
+        ) : (
+          <ul className="divide-y divide-gray-700">
+            {entries.map((entry) => (
+              <li key={entry.id} className="py-3 flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entry.id)}
+                  onChange={() => toggleSelected(entry.id)}
+                  className="mt-1"
+                  aria-label="בחר להשוואה"
+                />
+                <div className="flex-1">
+                  <Link href={`/history/${entry.id}`} className="font-medium text-blue-400 hover:text-blue-300">
+                    {formatDateTime(entry.createdAt)}
+                  </Link>
+                  <div className="text-sm text-gray-300">
+                    {entry.dates.from === entry.dates.to ? entry.dates.from : `${entry.dates.from} - ${entry.dates.to}`}
+                    {" · "}{entry.linkCount} לינקים ב-{entry.categoryCount} קטגוריות
+                    {" · "}{entry.languages.map((language) => getLanguage(language).label).join(", ")}
+                  </div>
+                  {entry.message && <div className="text-sm text-yellow-300">{entry.message}</div>}
+                  <div className="text-xs text-gray-400">
+                    {entry.fileNames.join(", ")} · {entry.model} · {formatCost(entry.costUsd)}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { LibraryLink, LibrarySearchResult } from "@/lib/link-library";
+import { getCategory } from "@/lib/taxonomy";
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString("he-IL");
+
+const PAGE_SIZE = 50;
+
+interface Filters {
+  q: string;
+  group: string;
+  category: string;
+  domain: string;
+  sender: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: "", group: "", category: "", domain: "", sender: "", from: "", to: "" };
+
+export default function LinksPage() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [searchedFilters, setSearchedFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [result, setResult] = useState<LibrarySearchResult | null>(null);
+  const [links, setLinks] = useState<LibraryLink[]>([]);
+  const [error, setError] = useState<string>("");
+  const [searching, setSearching] = useState(false);
+
+  // Runs the search; more results are appended to the ones shown
+  const search = useCallback(async (searched: Filters, offset = 0) => {
+    setSearching(true);
+    setError("");
+    setSearchedFilters(searched);
+    const params = new URLSearchParams({
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    });
+    Object.entries(searched).forEach(([name, value]) => {
+      if (value) params.append(name, value);
+    });
+    try {
+      const response = await fetch(`/api/links?${params}`);
+      if (!response.ok) {
+        setError("החיפוש נכשל - בדוק את טווח התאריכים");
+        return;
+      }
+      const data: LibrarySearchResult = await response.json();
+      setResult(data);
+      setLinks((shown) => (offset > 0 ? [...shown, ...data.links] : data.links));
+    } catch (searchError) {
+      console.error("Failed to search the links:", searchError);
+      setError("החיפוש נכשל");
+    } finally {
+      setSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    search(EMPTY_FILTERS);
+  }, [search]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    search(filters);
+  };
+
+  const setFilter = (name: keyof Filters, value: string) => setFilters({ ...filters, [name]: value });
+
+  const renderSelect = (name: keyof Filters, label: string, options: { value: string; label: string }[]) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-300">
+      {label}
+      <select
+        value={filters[name]}
+        onChange={(e) => setFilter(name, e.target.value)}
+        className="p-2 border border-gray-600 rounded bg-gray-700 text-white"
+      >
+        <option value="">הכל</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const asOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
+
+  return (
+    <main dir="rtl" className="min-h-screen p-4 md:p-8 lg:p-12 max-w-4xl mx-auto bg-black text-white">
+      <h1 className="text-3xl font-bold mb-2 text-center text-white">ספריית לינקים</h1>
+      <div className="text-center mb-6 text-sm">
+        <Link href="/" className="text-blue-400 hover:text-blue-300">חזרה לסיכום חדש</Link>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-gray-800 shadow-md rounded-lg p-6 mb-8 border border-gray-700 space-y-4">
+        <input
+          type="search"
+          value={filters.q}
+          onChange={(e) => setFilter("q", e.target.value)}
+          placeholder="חיפוש חופשי, למשל: כלי AI לווידאו"
+          className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+        />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {renderSelect("group", "קבוצה", asOptions(result?.filters.groups || []))}
+          {renderSelect("category", "קטגוריה", (result?.filters.categories || []).map(({ id, name }) => ({ value: id, label: name })))}
+          {renderSelect("domain", "אתר", asOptions(result?.filters.domains || []))}
+          {renderSelect("sender", "שולח", asOptions(result?.filters.senders || []))}
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-sm text-gray-300">
+            מתאריך
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilter("from", e.target.value)}
+              className="p-2 border border-gray-600 rounded bg-gray-700 text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-300">
+            עד תאריך
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilter("to", e.target.value)}
+              className="p-2 border border-gray-600 rounded bg-gray-700 text-white"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={searching}
+            className="py-2 px-4 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-600"
+          >
+            {searching ? "מחפש..." : "חפש"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setFilters(EMPTY_FILTERS);
+              search(EMPTY_FILTERS);
+            }}
+            className="py-2 px-4 rounded bg-gray-600 hover:bg-gray-700 text-white"
+          >
+            נקה
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="text-red-400 mb-4">{error}</p>}
+
+      <div className="bg-gray-800 shadow-md rounded-lg p-6 border border-gray-700">
+        {!result ? (
+          <p className="text-gray-300">טוען...</p>
+        ) : links.length === 0 ? (
+          <p className="text-gray-300">לא נמצאו לינקים</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-300 mb-4">{result.total} לינקים</p>
+            <ul className="divide-y divide-gray-700">
+              {links.map((link) => (
+                <li key={link.canonicalUrl} className="py-3">
+                  <div className="flex items-baseline gap-2">
+                    <a href={link.url} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-400 hover:text-blue-300">
+                      {link.name}
+                    </a>
+                    <span className="text-xs text-gray-400">{getCategory(link.category).emoji} {link.domain}</span>
+                  </div>
+                  {link.description && <p className="text-sm text-gray-300 mt-1">{link.description}</p>}
+                  <div className="text-xs text-gray-400 mt-1">
+                    {link.groups.join(", ")}
+                    {link.senders.length > 0 && ` · ${link.senders.join(", ")}`}
+                    {" · "}
+                    {link.firstSharedAt === link.lastSharedAt
+                      ? formatDate(link.lastSharedAt)
+                      : `${formatDate(link.firstSharedAt)} - ${formatDate(link.lastSharedAt)}`}
+                    {link.shares.length > 1 && ` · שותף ${link.shares.length} פעמים`}
+                    {link.historyIds[0] && (
+                      <>
+                        {" · "}
+                        <Link href={`/history/${link.historyIds[0]}`} className="text-blue-400 hover:text-blue-300">
+                          בסיכום
+                        </Link>
+                      </>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {links.length < result.total && (
+              <button
+                onClick={() => search(searchedFilters, links.length)}
+                disabled={searching}
+                className="mt-4 py-2 px-4 rounded bg-gray-600 hover:bg-gray-700 text-white disabled:opacity-50"
+              >
+                הצג עוד
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
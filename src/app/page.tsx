@@ -1,31 +1,196 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
+import type { TimeWindowKind } from "@/lib/time-window";
+import type { SummaryStats } from "@/lib/summarizer";
+import type { HealthStatus } from "@/lib/health";
+import { ERROR_MESSAGES, ErrorCode } from "@/lib/errors";
+import type { PartialLink, ProgressEvent } from "@/lib/pipeline";
+import type { Job } from "@/lib/jobs";
+import { categoryTitle } from "@/lib/taxonomy";
+import type { RepeatedLink, StructuredCategory } from "@/lib/structured-summary";
+import type { RepeatMode } from "@/lib/repeats";
+import { DEFAULT_SUMMARY_FORMAT, SUMMARY_FORMATS, SummaryFormat } from "@/lib/summary-formats";
+import { DEFAULT_LANGUAGE, getLanguage, LANGUAGES, SummaryLanguage } from "@/lib/languages";
+import DigestResults from "./components/DigestResults";
+import TemplatesDialog from "./components/TemplatesDialog";
+import type { Digest, DigestResult } from "./components/types";
 
 // Define interface for API error responses
 interface ApiError {
   message?: string;
   error?: string;
+  code?: ErrorCode;
   details?: unknown;
 }
 
+// Final line of the streamed analyze response: the result, or an error
+interface AnalyzeResult extends ApiError {
+  type?: "result" | "error";
+  summary?: string;
+  format?: SummaryFormat;
+  parts?: string[];
+  stats?: SummaryStats;
+  language?: SummaryLanguage;
+  direction?: "rtl" | "ltr";
+  structured?: { categories: StructuredCategory[]; repeated?: RepeatedLink[] };
+  digests?: Digest[]; // When several languages were asked for
+  dates?: { from: string; to: string };
+  historyId?: string; // The run in the history archive
+  window?: { end: string | null };
+}
+
+// Timezones offered in the selector, in addition to the browser's own zone
+const COMMON_TIME_ZONES = [
+  "Asia/Jerusalem",
+  "UTC",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Los_Angeles",
+];
+
+// One-click time window presets shown next to the date pickers
+const WINDOW_PRESETS: { id: TimeWindowKind; label: string; hint: string }[] = [
+  { id: "last24h", label: "24 שעות אחרונות", hint: "יוצגו הודעות מ-24 השעות האחרונות" },
+  { id: "yesterday", label: "אתמול", hint: "יוצגו כל ההודעות מאתמול, 00:00 עד 23:59:59" },
+  { id: "thisWeek", label: "השבוע", hint: "יוצגו הודעות מתחילת השבוע (יום ראשון) ועד עכשיו" },
+  { id: "sinceLastSummary", label: "מאז הסיכום האחרון", hint: "יוצגו הודעות מסוף הסיכום הקודם ועד עכשיו" },
+  { id: "custom", label: "טווח עם שעות", hint: "בחר תאריך ושעה להתחלה ולסיום" },
+];
+
+// Where the end of the last successful summary window is remembered
+const LAST_SUMMARY_STORAGE_KEY = "lastSummaryAt";
+
+// Where the background job being watched is remembered, so a refresh resumes it
+const ACTIVE_JOB_STORAGE_KEY = "activeJobId";
+
+// Uploads above this size are sent as a background job by default
+const BACKGROUND_THRESHOLD_BYTES = 2 * 1024 * 1024;
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// Default length of each message when splitting the summary; a practical size to paste in WhatsApp
+const DEFAULT_MAX_MESSAGE_LENGTH = 4000;
+
+// How many days back a previous digest makes a link count as already shared
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+// Format a date picked in the browser as a plain calendar date (yyyy-mm-dd),
+// so the server can apply the selected timezone's day boundaries to it
+function toCalendarDateString(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Format a date-time picked in the browser as a wall-clock time (yyyy-mm-ddThh:mm)
+function toWallClockString(date: Date): string {
+  const hours = date.getHours().toString().padStart(2, "0");
+  const minutes = date.getMinutes().toString().padStart(2, "0");
+  return `${toCalendarDateString(date)}T${hours}:${minutes}`;
+}
+
+// Reads a newline-delimited JSON response line by line as it arrives
+async function readNdjson(response: Response, onLine: (line: Record<string, unknown>) => void): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) onLine(JSON.parse(line));
+    }
+    if (done) break;
+  }
+  if (buffered.trim()) onLine(JSON.parse(buffered));
+}
+
 export default function Home() {
   const [files, setFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
-  const [summary, setSummary] = useState<string>("");
   const [error, setError] = useState<string>("");
   const [errorDetails, setErrorDetails] = useState<ApiError | null>(null);
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
-  const [copySuccess, setCopySuccess] = useState(false);
   const [dateRangeText, setDateRangeText] = useState<string>("");
   const [isSameDaySelected, setIsSameDaySelected] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [timeZone, setTimeZone] = useState<string>("UTC");
+  const [browserTimeZone, setBrowserTimeZone] = useState<string>("");
+  const [windowKind, setWindowKind] = useState<TimeWindowKind>("dates");
+  const [lastSummaryAt, setLastSummaryAt] = useState<string | null>(null);
+  const [health, setHealth] = useState<HealthStatus | null>(null);
+  const [checkingHealth, setCheckingHealth] = useState(false);
+  const [progressLog, setProgressLog] = useState<string[]>([]);
+  const [partialLinks, setPartialLinks] = useState<PartialLink[]>([]);
+  const [runInBackground, setRunInBackground] = useState(false);
+  const [summaryFormat, setSummaryFormat] = useState<SummaryFormat>(DEFAULT_SUMMARY_FORMAT);
+  const [splitMessages, setSplitMessages] = useState(false);
+  const [maxMessageLength, setMaxMessageLength] = useState<number>(DEFAULT_MAX_MESSAGE_LENGTH);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [templateLanguage, setTemplateLanguage] = useState<SummaryLanguage>(DEFAULT_LANGUAGE);
+  const [summaryLanguages, setSummaryLanguages] = useState<SummaryLanguage[]>([DEFAULT_LANGUAGE]);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>("mention");
+  const [lookbackDays, setLookbackDays] = useState<number>(DEFAULT_LOOKBACK_DAYS);
+  const [result, setResult] = useState<DigestResult | null>(null);
+
+  // Default the timezone to the browser's zone (client-side only)
+  useEffect(() => {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (zone) {
+      setBrowserTimeZone(zone);
+      setTimeZone(zone);
+    }
+    setLastSummaryAt(localStorage.getItem(LAST_SUMMARY_STORAGE_KEY));
+  }, []);
+
+  // Load the model status (cached on the server unless a refresh is asked for)
+  const checkHealth = useCallback(async (refresh: boolean) => {
+    setCheckingHealth(true);
+    try {
+      const response = await fetch(refresh ? "/api/test?refresh=1" : "/api/test");
+      setHealth(await response.json() as HealthStatus);
+    } catch (error) {
+      console.error('Failed to load model status:', error);
+      setHealth(null);
+    } finally {
+      setCheckingHealth(false);
+    }
+  }, []);
 
   // Client-side only operations
   useEffect(() => {
+    // Presets describe themselves
+    const preset = WINDOW_PRESETS.find((p) => p.id === windowKind);
+    if (preset && windowKind !== "custom") {
+      setIsSameDaySelected(false);
+      setDateRangeText(
+        windowKind === "sinceLastSummary" && lastSummaryAt
+          ? `${preset.hint} (${new Date(lastSummaryAt).toLocaleString("he-IL")})`
+          : preset.hint
+      );
+      return;
+    }
+
+    if (windowKind === "custom") {
+      setIsSameDaySelected(false);
+      setDateRangeText(
+        startDate || endDate
+          ? `נבחר טווח מ-${startDate ? startDate.toLocaleString("he-IL") : "ההתחלה"} עד ${endDate ? endDate.toLocaleString("he-IL") : "עכשיו"}`
+          : preset?.hint || ""
+      );
+      return;
+    }
+
     // Check if same day is selected
     if (startDate && endDate) {
       const sameDay = 
@@ -48,23 +213,129 @@ export default function Home() {
       setIsSameDaySelected(false);
       setDateRangeText("");
     }
-  }, [startDate, endDate]);
-
-  // Reset copy success message after 3 seconds
-  useEffect(() => {
-    if (copySuccess) {
-      const timer = setTimeout(() => {
-        setCopySuccess(false);
-      }, 3000);
-      return () => clearTimeout(timer);
-    }
-  }, [copySuccess]);
+  }, [startDate, endDate, windowKind, lastSummaryAt]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const fileArray = Array.from(e.target.files);
       setFiles(fileArray);
+      // Large exports may take longer than a single request is allowed to run
+      const totalSize = fileArray.reduce((total, file) => total + file.size, 0);
+      setRunInBackground(totalSize > BACKGROUND_THRESHOLD_BYTES);
+    }
+  };
+
+  // Adds or removes a summary language; at least one stays selected
+  const toggleSummaryLanguage = (language: SummaryLanguage) => {
+    if (summaryLanguages.includes(language)) {
+      if (summaryLanguages.length > 1) {
+        setSummaryLanguages(summaryLanguages.filter((selected) => selected !== language));
+      }
+    } else {
+      setSummaryLanguages(LANGUAGES.map(({ code }) => code).filter((code) => code === language || summaryLanguages.includes(code)));
+    }
+  };
+
+  // Shows a finished analysis (from the stream or a background job)
+  const applyResult = useCallback((data: AnalyzeResult) => {
+    if (data.type === "error" || (data.error && !data.summary)) {
+      setError(data.code && ERROR_MESSAGES[data.code] ? ERROR_MESSAGES[data.code] : data.message || data.error || "שגיאה בעיבוד הקבצים");
+      setErrorDetails(data);
+      return;
+    }
+    
+    // Remember where this summary ended for the "since last summary" preset
+    if (data.window) {
+      const summaryEnd = data.window.end || new Date().toISOString();
+      localStorage.setItem(LAST_SUMMARY_STORAGE_KEY, summaryEnd);
+      setLastSummaryAt(summaryEnd);
+    }
+    
+    if (data.summary) {
+      const language = data.language || DEFAULT_LANGUAGE;
+      const digest: Digest = {
+        language,
+        direction: data.direction || getLanguage(language).direction,
+        summary: data.summary,
+        parts: data.parts,
+        stats: data.stats,
+        structured: data.structured,
+      };
+      setResult({
+        digests: data.digests && data.digests.length > 0 ? data.digests : [digest],
+        format: data.format || DEFAULT_SUMMARY_FORMAT,
+        dates: data.dates || null,
+        historyId: data.historyId || null,
+      });
+    } else if (data.message) {
+      setError(data.message);
+      setErrorDetails(data);
+    } else {
+      setError('התקבלה תשובה לא תקינה מהשרת');
+      setErrorDetails(data);
+    }
+  }, []);
+
+  // Polls a background job until it finishes, showing its progress meanwhile
+  const watchJob = useCallback(async (jobId: string) => {
+    setLoading(true);
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
+    
+    try {
+      for (;;) {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        if (response.status === 404) {
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          setError("העבודה ברקע לא נמצאה בשרת");
+          return;
+        }
+        
+        const job = await response.json() as Omit<Job, "result">;
+        setProgressLog(job.progress);
+        setPartialLinks(job.partial);
+        
+        if (job.status === "done") {
+          const resultResponse = await fetch(`/api/jobs/${jobId}/result`);
+          applyResult(await resultResponse.json() as AnalyzeResult);
+          break;
+        }
+        if (job.status === "failed") {
+          applyResult({ type: "error", ...job.error });
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      }
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    } catch (error) {
+      // Keep the job id, so reloading the page tries again
+      console.error('Error while watching job:', error);
+      setError(error instanceof Error ? error.message : "שגיאה לא ידועה");
+    } finally {
+      setLoading(false);
+    }
+  }, [applyResult]);
+
+  useEffect(() => {
+    checkHealth(false);
+    
+    // Resume watching a background job started before the page was reloaded
+    const activeJobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (activeJobId) {
+      watchJob(activeJobId);
+    }
+  }, [checkHealth, watchJob]);
+
+  // Sends the files as a background job and starts watching it
+  const submitJob = async (formData: FormData) => {
+    const response = await fetch("/api/jobs", { method: "POST", body: formData });
+    const data = await response.json() as ApiError & { id?: string };
+    if (!response.ok || !data.id) {
+      setLoading(false);
+      applyResult({ type: "error", ...data });
+      return;
     }
+    console.log(`Started background job ${data.id}`);
+    await watchJob(data.id);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -78,22 +349,55 @@ export default function Home() {
     setLoading(true);
     setError("");
     setErrorDetails(null);
-    setSummary("");
+    setResult(null);
+    setProgressLog([]);
+    setPartialLinks([]);
     
     const formData = new FormData();
     files.forEach((file) => {
       formData.append(`files`, file);
     });
     
-    if (startDate) {
-      formData.append('startDate', startDate.toISOString());
+    formData.append('window', windowKind);
+    
+    if (windowKind === "custom") {
+      if (startDate) {
+        formData.append('from', toWallClockString(startDate));
+      }
+      if (endDate) {
+        formData.append('to', toWallClockString(endDate));
+      }
+    } else if (windowKind === "dates") {
+      if (startDate) {
+        formData.append('startDate', toCalendarDateString(startDate));
+      }
+      
+      if (endDate) {
+        formData.append('endDate', toCalendarDateString(endDate));
+      }
+    } else if (windowKind === "sinceLastSummary" && lastSummaryAt) {
+      formData.append('since', lastSummaryAt);
     }
     
-    if (endDate) {
-      formData.append('endDate', endDate.toISOString());
+    formData.append('timezone', timeZone);
+    formData.append('format', summaryFormat);
+    formData.append('output', 'json'); // The structured summary drives the review step
+    if (splitMessages) {
+      formData.append('maxMessageLength', String(maxMessageLength));
     }
+    formData.append('repeats', repeatMode);
+    formData.append('lookbackDays', String(lookbackDays));
+    summaryLanguages.forEach((language) => {
+      formData.append('language', language);
+    });
+    formData.append('stream', '1'); // Ask for live progress updates
     
     try {
+      if (runInBackground) {
+        await submitJob(formData);
+        return;
+      }
+      
       console.log('Sending request to /api/analyze');
       
       const response = await fetch("/api/analyze", {
@@ -117,7 +421,9 @@ export default function Home() {
           const errorData = await response.json() as ApiError;
           console.error('Error details:', errorData);
           
-          if (errorData.message) {
+          if (errorData.code && ERROR_MESSAGES[errorData.code]) {
+            errorMessage = ERROR_MESSAGES[errorData.code];
+          } else if (errorData.message) {
             errorMessage = errorData.message;
           }
           
@@ -149,18 +455,23 @@ export default function Home() {
         return; // Stop further execution
       }
       
-      const data = await response.json();
+      // Show progress as it streams in; the last line is the result or an error
+      const startedAt = Date.now();
+      let data: AnalyzeResult = {};
+      await readNdjson(response, (line) => {
+        if (line.type === "progress") {
+          const event = line as unknown as ProgressEvent;
+          const seconds = Math.round((Date.now() - startedAt) / 1000);
+          setProgressLog((log) => [...log, `[${seconds} שנ׳] ${event.message}`]);
+          if (event.partial && event.partial.length > 0) {
+            setPartialLinks((links) => [...links, ...event.partial!]);
+          }
+        } else {
+          data = line as AnalyzeResult;
+        }
+      });
       console.log('Response data:', data);
-      
-      if (data.summary) {
-        setSummary(data.summary);
-      } else if (data.message) {
-        setError(data.message);
-        setErrorDetails(data);
-      } else {
-        setError('התקבלה תשובה לא תקינה מהשרת');
-        setErrorDetails(data);
-      }
+      applyResult(data);
     } catch (error) {
       console.error('Error in handleSubmit:', error);
       const errorMessage = error instanceof Error ? error.message : "שגיאה לא ידועה";
@@ -175,16 +486,6 @@ export default function Home() {
     }
   };
 
-  const handleCopyToClipboard = () => {
-    navigator.clipboard.writeText(summary)
-      .then(() => {
-        setCopySuccess(true);
-      })
-      .catch(() => {
-        setError("שגיאה בהעתקה ללוח");
-      });
-  };
-
   // WhatsApp export help dialog
   const renderHelpDialog = () => {
     if (!showHelp) return null;
@@ -238,9 +539,13 @@ export default function Home() {
                 <li>הכלי תומך בכל פורמט ייצוא וואטסאפ עם תבניות תאריך כגון:
                   <ul className="list-disc list-inside space-y-1 pr-8 mt-1 text-gray-700">
                     <li dir="ltr">[25/03/2024, 14:30:45]</li>
+                    <li dir="ltr">[25.03.24, 14:30:45]</li>
+                    <li dir="ltr">[3/25/24, 2:30:45 PM]</li>
+                    <li dir="ltr">25/03/2024, 14:30 -</li>
                     <li dir="ltr">22.9.2024, 14:33 -</li>
                   </ul>
                 </li>
+                <li>סדר היום והחודש ושעון 12/24 שעות מזוהים אוטומטית לכל קובץ</li>
                 <li>אם אתם מקבלים שגיאה, נסו לייצא שוב מהטלפון הנייד</li>
               </ul>
             </div>
@@ -261,10 +566,45 @@ export default function Home() {
 
   return (
     <main dir="rtl" className="min-h-screen p-4 md:p-8 lg:p-12 max-w-4xl mx-auto bg-black text-white">
-      <h1 className="text-3xl font-bold mb-8 text-center text-white">סיכום לינקים מקבוצות וואטסאפ</h1>
+      <h1 className="text-3xl font-bold mb-2 text-center text-white">סיכום לינקים מקבוצות וואטסאפ</h1>
+      <div className="text-center mb-6 text-sm">
+        <Link href="/history" className="text-blue-400 hover:text-blue-300">היסטוריית סיכומים</Link>
+        {" · "}
+        <Link href="/links" className="text-blue-400 hover:text-blue-300">ספריית לינקים</Link>
+      </div>
+
+      {/* Model status indicator */}
+      <div className="flex items-center justify-center gap-2 mb-6 text-sm text-gray-300">
+        <span
+          className={`inline-block h-2.5 w-2.5 rounded-full ${
+            !health ? "bg-gray-500" : health.status === "ok" ? "bg-green-500" : health.status === "offline" ? "bg-yellow-400" : "bg-red-500"
+          }`}
+        />
+        <span>
+          {!health && (checkingHealth ? "בודק את חיבור המודל..." : "מצב המודל אינו ידוע")}
+          {health?.status === "ok" && `המודל מחובר (${health.model})`}
+          {health?.status === "offline" && "מצב ללא מודל - הסיכום ייבנה מנתוני העמודים וההודעות"}
+          {health?.status === "error" && `המודל אינו זמין: ${health.errorCode ? ERROR_MESSAGES[health.errorCode] : health.error}`}
+        </span>
+        <button
+          type="button"
+          onClick={() => checkHealth(true)}
+          disabled={checkingHealth}
+          className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          בדוק שוב
+        </button>
+      </div>
       
       {/* Add the help dialog */}
       {renderHelpDialog()}
+      {showTemplates && (
+        <TemplatesDialog
+          language={templateLanguage}
+          onLanguageChange={setTemplateLanguage}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
       
       <div className="bg-gray-800 shadow-md rounded-lg p-6 mb-8 border border-gray-700">
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -297,6 +637,35 @@ export default function Home() {
             <p className="text-sm text-gray-300 mb-4">
               בחר טווח תאריכים לסינון השיחות (אופציונלי)
             </p>
+            <div className="flex flex-wrap gap-2">
+              {WINDOW_PRESETS.map((preset) => {
+                const isActive = windowKind === preset.id;
+                const isDisabled = preset.id === "sinceLastSummary" && !lastSummaryAt;
+                return (
+                  <button
+                    key={preset.id}
+                    type="button"
+                    disabled={isDisabled}
+                    onClick={() => {
+                      // Clicking the active preset returns to plain date selection
+                      setWindowKind(isActive ? "dates" : preset.id);
+                      if (preset.id !== "custom") {
+                        setStartDate(null);
+                        setEndDate(null);
+                      }
+                    }}
+                    className={`py-1 px-3 rounded text-sm border ${
+                      isActive
+                        ? "bg-blue-600 border-blue-500 text-white"
+                        : "bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600"
+                    } disabled:opacity-40 disabled:cursor-not-allowed`}
+                    title={isDisabled ? "עדיין לא נוצר סיכום בדפדפן זה" : preset.hint}
+                  >
+                    {preset.label}
+                  </button>
+                );
+              })}
+            </div>
             <div className="flex flex-col sm:flex-row gap-4">
               <div className="flex-1">
                 <label className="block text-sm font-medium mb-1 text-white">
@@ -304,12 +673,17 @@ export default function Home() {
                 </label>
                 <DatePicker
                   selected={startDate}
-                  onChange={(date: Date | null) => setStartDate(date)}
+                  onChange={(date: Date | null) => {
+                    setStartDate(date);
+                    if (windowKind !== "custom") setWindowKind("dates");
+                  }}
                   selectsStart
                   startDate={startDate || undefined}
                   endDate={endDate || undefined}
                   className="block w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
-                  dateFormat="dd/MM/yyyy"
+                  showTimeSelect={windowKind === "custom"}
+                  timeFormat="HH:mm"
+                  dateFormat={windowKind === "custom" ? "dd/MM/yyyy HH:mm" : "dd/MM/yyyy"}
                   placeholderText="בחר תאריך התחלה"
                 />
               </div>
@@ -319,18 +693,42 @@ export default function Home() {
                 </label>
                 <DatePicker
                   selected={endDate}
-                  onChange={(date: Date | null) => setEndDate(date)}
+                  onChange={(date: Date | null) => {
+                    setEndDate(date);
+                    if (windowKind !== "custom") setWindowKind("dates");
+                  }}
                   selectsEnd
                   startDate={startDate || undefined}
                   endDate={endDate || undefined}
                   minDate={startDate || undefined}
                   className="block w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
-                  dateFormat="dd/MM/yyyy"
+                  showTimeSelect={windowKind === "custom"}
+                  timeFormat="HH:mm"
+                  dateFormat={windowKind === "custom" ? "dd/MM/yyyy HH:mm" : "dd/MM/yyyy"}
                   placeholderText="בחר תאריך סיום"
                 />
               </div>
             </div>
             
+            <div>
+              <label htmlFor="timezone" className="block text-sm font-medium mb-1 text-white">
+                אזור זמן
+              </label>
+              <select
+                id="timezone"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="block w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+                dir="ltr"
+              >
+                {Array.from(new Set([browserTimeZone, ...COMMON_TIME_ZONES].filter(Boolean))).map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}{zone === browserTimeZone ? " (הדפדפן)" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            
             {/* Date selection hint - only show when there's actual text to display */}
             {dateRangeText && (
               <div className={`mt-2 text-sm ${isSameDaySelected ? 'text-blue-400' : 'text-gray-300'}`}>
@@ -339,6 +737,100 @@ export default function Home() {
             )}
           </div>
           
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor="format" className="block text-sm font-medium text-white">
+                פורמט הסיכום
+              </label>
+              <button
+                type="button"
+                onClick={() => setShowTemplates(true)}
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                עריכת תבניות
+              </button>
+            </div>
+            <select
+              id="format"
+              value={summaryFormat}
+              onChange={(e) => setSummaryFormat(e.target.value as SummaryFormat)}
+              className="block w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+            >
+              {SUMMARY_FORMATS.map(({ format, label }) => (
+                <option key={format} value={format}>{label}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-300">
+            <span>שפות הסיכום:</span>
+            {LANGUAGES.map(({ code, label }) => (
+              <label key={code} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={summaryLanguages.includes(code)}
+                  onChange={() => toggleSummaryLanguage(code)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-300">
+            <label htmlFor="repeat-mode">לינקים שהופיעו בסיכום מ-</label>
+            <input
+              type="number"
+              min={1}
+              value={lookbackDays}
+              onChange={(e) => setLookbackDays(Number(e.target.value) || DEFAULT_LOOKBACK_DAYS)}
+              disabled={repeatMode === "off"}
+              className="w-16 p-1 border border-gray-600 rounded bg-gray-700 text-white disabled:opacity-50"
+              dir="ltr"
+            />
+            הימים האחרונים:
+            <select
+              id="repeat-mode"
+              value={repeatMode}
+              onChange={(e) => setRepeatMode(e.target.value as RepeatMode)}
+              className="p-1 border border-gray-600 rounded bg-gray-700 text-white"
+            >
+              <option value="mention">רשימה מקוצרת תחת &quot;נזכר שוב&quot;</option>
+              <option value="exclude">השמט מהסיכום</option>
+              <option value="off">סכם כרגיל</option>
+            </select>
+          </div>
+          
+          <div className="flex items-center gap-2 mb-4 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={splitMessages}
+                onChange={(e) => setSplitMessages(e.target.checked)}
+              />
+              פצל להודעות של עד
+            </label>
+            <input
+              type="number"
+              min={500}
+              step={500}
+              value={maxMessageLength}
+              onChange={(e) => setMaxMessageLength(Number(e.target.value) || DEFAULT_MAX_MESSAGE_LENGTH)}
+              disabled={!splitMessages}
+              className="w-24 p-1 border border-gray-600 rounded bg-gray-700 text-white disabled:opacity-50"
+              dir="ltr"
+            />
+            תווים
+          </div>
+          
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={runInBackground}
+              onChange={(e) => setRunInBackground(e.target.checked)}
+            />
+            הרץ ברקע (מומלץ לקבצים גדולים - אפשר לרענן את הדף בזמן העיבוד)
+          </label>
+          
           <button
             type="submit"
             disabled={loading}
@@ -349,13 +841,32 @@ export default function Home() {
         </form>
       </div>
 
-      {/* Replace Progress Indicator with Simple Loader */}
+      {/* Loader with the live progress log and the links summarized so far */}
       {loading && (
         <div className="bg-gray-800 shadow-md rounded-lg p-6 mb-8 border border-gray-700">
           <div className="flex items-center justify-center">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
             <span className="mr-4 text-lg">מעבד את הקבצים...</span>
           </div>
+          {progressLog.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm text-gray-300 font-mono">
+              {progressLog.map((entry, index) => (
+                <li key={index}>{entry}</li>
+              ))}
+            </ul>
+          )}
+          {partialLinks.length > 0 && (
+            <div className="mt-4 border-t border-gray-700 pt-4">
+              <h3 className="text-sm font-medium text-gray-200 mb-2">סוכמו עד עכשיו ({partialLinks.length}):</h3>
+              <ul className="space-y-1 text-sm text-gray-400">
+                {partialLinks.map((link) => (
+                  <li key={link.url}>
+                    {categoryTitle(link.category)} · {link.name}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
 
@@ -375,42 +886,7 @@ export default function Home() {
         </div>
       )}
 
-      {summary && (
-        <div className="bg-gray-800 shadow-md rounded-lg p-6 border border-gray-700">
-          <h2 className="text-xl font-bold mb-4 text-white">סיכום הלינקים</h2>
-          <div 
-            className="whitespace-pre-wrap text-white text-right rtl"
-            style={{ 
-              direction: 'rtl', 
-              textAlign: 'right',
-              unicodeBidi: 'embed'
-            }}
-          >
-            {summary}
-          </div>
-          <div className="mt-4 flex items-center gap-2">
-            <button
-              onClick={handleCopyToClipboard}
-              className={`py-2 px-4 rounded flex items-center gap-2 ${
-                copySuccess 
-                  ? "bg-green-600 hover:bg-green-700" 
-                  : "bg-gray-600 hover:bg-gray-700"
-              } text-white transition-colors duration-300`}
-            >
-              {copySuccess ? (
-                <>
-                  <span>הועתק בהצלחה!</span>
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                  </svg>
-                </>
-              ) : (
-                "העתק לקליפבורד"
-              )}
-            </button>
-          </div>
-        </div>
-      )}
+      {result && <DigestResults result={result} maxMessageLength={maxMessageLength} onError={setError} />}
     </main>
   );
 }
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { detectLinks } from '../link-detector';
+import corpus from './fixtures/link-detector.json';
+
+// Each fixture is a message and the links that should be found in it, in order
+interface LinkFixture {
+  name: string;
+  text: string;
+  links: string[];
+}
+
+describe('detectLinks', () => {
+  it.each(corpus as LinkFixture[])('$name', ({ text, links }) => {
+    expect(detectLinks(text).map(link => link.url)).toEqual(links);
+  });
+
+  it('reports where each link starts', () => {
+    const text = 'first example.com then https://example.org';
+    expect(detectLinks(text).map(link => link.index)).toEqual([6, 23]);
+  });
+});
@@ -0,0 +1,148 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createPageFetcher, defaultPageFetcher, enrichLinks, fetchPageMetadata, isPublicAddress } from '../link-enrichment';
+import type { LinkWithContext } from '../link-extractor';
+import { canonicalizeUrl } from '../url-canonical';
+
+const PAGE = `<!DOCTYPE html>
+<html><head>
+<title>Fallback title</title>
+<meta property="og:title" content="Stub Tool &amp; Friends">
+<meta name="description" content="A tool   for testing">
+<meta property="og:site_name" content="Stub">
+<meta property="og:type" content="website">
+</head><body>hello</body></html>`;
+
+// Local stub of the pages links point to
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/page') {
+      response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      response.end(PAGE);
+    } else if (request.url === '/old') {
+      response.writeHead(301, { Location: '/page' });
+      response.end();
+    } else if (request.url === '/to-ipv6-loopback') {
+      response.writeHead(302, { Location: `http://[::1]:${(server.address() as AddressInfo).port}/page` });
+      response.end();
+    } else if (request.url === '/loop') {
+      response.writeHead(302, { Location: '/loop' });
+      response.end();
+    } else if (request.url === '/slow') {
+      setTimeout(() => response.end(PAGE), 2000);
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+// The stub runs on loopback, which the default fetcher refuses
+const stubFetcher = createPageFetcher(address => address === '127.0.0.1');
+
+const options = { timeoutMs: 500, maxBytes: 64 * 1024, maxRedirects: 3 };
+
+function linkTo(url: string): LinkWithContext {
+  const date = new Date('2025-03-10T10:00:00Z');
+  return {
+    url,
+    canonicalUrl: canonicalizeUrl(url),
+    messageContext: url,
+    date,
+    occurrences: [{ originalUrl: url, messageContext: url, date }],
+  };
+}
+
+describe('link enrichment against a stub server', () => {
+  it('reads the title, description and OpenGraph data', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/page`, stubFetcher, options);
+    expect(metadata).toMatchObject({
+      finalUrl: `${baseUrl}/page`,
+      status: 200,
+      title: 'Stub Tool & Friends',
+      description: 'A tool for testing',
+      siteName: 'Stub',
+      ogType: 'website',
+    });
+    expect(metadata.error).toBeUndefined();
+  });
+
+  it('follows redirects to the final page', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/old`, stubFetcher, options);
+    expect(metadata.finalUrl).toBe(`${baseUrl}/page`);
+    expect(metadata.title).toBe('Stub Tool & Friends');
+  });
+
+  it('caps the number of redirects', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/loop`, stubFetcher, options);
+    expect(metadata.error).toBe('Too many redirects (3)');
+  });
+
+  it('gives up on slow pages', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/slow`, stubFetcher, { ...options, timeoutMs: 100 });
+    expect(metadata.error).toBe('Timeout');
+  });
+
+  it('reports HTTP errors', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/missing`, stubFetcher, options);
+    expect(metadata.error).toBe('HTTP 404');
+  });
+
+  it('attaches metadata to every link', async () => {
+    const links = await enrichLinks([linkTo(`${baseUrl}/page`), linkTo(`${baseUrl}/missing`)], { fetcher: stubFetcher, ...options });
+    expect(links.map(link => link.metadata?.title)).toEqual(['Stub Tool & Friends', undefined]);
+    expect(links[1].metadata?.error).toBe('HTTP 404');
+  });
+});
+
+describe('fetching only public addresses', () => {
+  it('refuses loopback hosts', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/page`, defaultPageFetcher, options);
+    expect(metadata.error).toMatch(/^Blocked address/);
+  });
+
+  it('refuses host names that resolve to loopback', async () => {
+    const port = (server.address() as AddressInfo).port;
+    const metadata = await fetchPageMetadata(`http://localhost:${port}/page`, defaultPageFetcher, options);
+    expect(metadata.error).toMatch(/^Blocked address for localhost \((127\.0\.0\.1|::1)\)$/);
+  });
+
+  it('connects to the address it checked', async () => {
+    const port = (server.address() as AddressInfo).port;
+    const loopbackFetcher = createPageFetcher(address => address === '127.0.0.1' || address === '::1');
+    const metadata = await fetchPageMetadata(`http://localhost:${port}/page`, loopbackFetcher, options);
+    expect(metadata.title).toBe('Stub Tool & Friends');
+  });
+
+  it('checks every redirect hop', async () => {
+    const metadata = await fetchPageMetadata(`${baseUrl}/to-ipv6-loopback`, stubFetcher, options);
+    expect(metadata.error).toBe('Blocked address for ::1 (::1)');
+  });
+
+  it('refuses schemes other than http and https', async () => {
+    const metadata = await fetchPageMetadata('file:///etc/passwd', defaultPageFetcher, options);
+    expect(metadata.error).toBe('Blocked scheme file:');
+  });
+
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1',
+  ])('treats %s as private', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])('treats %s as public', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtempSync, rmSync } from 'fs';
+import JSZip from 'jszip';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type * as Pipeline from '../pipeline';
+
+// The whole analysis, offline: the heuristic provider instead of a model, no
+// page fetching, and a data directory of its own
+let dataDir: string;
+let pipeline: typeof Pipeline;
+
+beforeAll(async () => {
+  dataDir = mkdtempSync(path.join(tmpdir(), 'pipeline-test-'));
+  vi.stubEnv('DATA_DIR', dataDir);
+  vi.stubEnv('LLM_PROVIDER', 'heuristic');
+  vi.stubEnv('LINK_ENRICHMENT', 'off');
+  // Storage reads DATA_DIR when loaded
+  vi.resetModules();
+  pipeline = await import('../pipeline');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const CHAT = `10/03/2025, 09:00 - Dana: old one https://example.net/old
+12/03/2025, 10:00 - Dana: check https://github.com/vercel/next.js great React framework
+12/03/2025, 10:05 - Avi: new AI video tool https://example.io/agent?utm_source=whatsapp
+12/03/2025, 10:06 - Avi: same again https://www.example.io/agent
+12/03/2025, 10:07 - Dana: IMG-20250312-WA0001.jpg (file attached)
+12/03/2025, 11:00 - Noa: ‎<attached: 00000012-report.pdf>`;
+
+const file = (name: string, content: string) => ({ name, data: new TextEncoder().encode(content).buffer as ArrayBuffer });
+
+const run = (files: Pipeline.UploadedFile[], extra: Partial<Pipeline.AnalysisInput> = {}) => pipeline.runAnalysis({
+  files,
+  timeZone: 'UTC',
+  window: { window: 'dates', startDate: '2025-03-12', endDate: '2025-03-12' },
+  output: 'json',
+  ...extra,
+});
+
+describe('runAnalysis with the heuristic provider', () => {
+  it('summarizes the links of the window without a model or network', async () => {
+    const result = await run([file('WhatsApp Chat with Dev.txt', CHAT)]);
+    if ('error' in result) throw new Error(result.error);
+
+    const links = result.structured!.categories.flatMap(category => category.links);
+    expect(links.map(link => link.url).sort()).toEqual(['https://example.io/agent', 'https://github.com/vercel/next.js']);
+    expect(links.find(link => link.url === 'https://example.io/agent')).toMatchObject({ timesShared: 2, groups: ['Dev'], senders: ['Avi'] });
+    expect(result.stats).toMatchObject({ provider: 'heuristic', linksFound: 2, linksProcessed: 2, usage: { promptTokens: 0, completionTokens: 0 } });
+    expect(result.structured!.skipped).toEqual([expect.objectContaining({ url: 'https://example.net/old', reason: 'outside_time_window' })]);
+    expect(result.summary).toContain('https://github.com/vercel/next.js');
+    expect(result.summary).toContain('12.03');
+    expect(result.historyId).toBeDefined();
+  });
+
+  it('reads chat exports inside zip files', async () => {
+    const zip = new JSZip();
+    zip.file('WhatsApp Chat with AI.txt', '12/03/2025, 12:00 - Dana: https://example.org/zipped');
+    const data = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const result = await run([{ name: 'WhatsApp Chat with AI.zip', data }], { repeats: 'off' });
+    if ('error' in result) throw new Error(result.error);
+    expect(result.structured!.categories.flatMap(category => category.links).map(link => link.url)).toEqual(['https://example.org/zipped']);
+  });
+
+  it('renders one digest per language', async () => {
+    const result = await run([file('WhatsApp Chat with Dev.txt', CHAT)], { languages: ['en', 'he'], repeats: 'off', format: 'markdown' });
+    if ('error' in result) throw new Error(result.error);
+    expect(result.digests!.map(digest => [digest.language, digest.direction])).toEqual([['en', 'ltr'], ['he', 'rtl']]);
+    const types = result.digests!.map(digest => digest.structured!.categories.flatMap(category => category.links)
+      .find(link => link.url === 'https://example.io/agent')?.type);
+    expect(types).toEqual(['Website', 'אתר']);
+    expect(result.summary).toContain('Date: 12.03');
+    expect(result.summary).toContain('<https://github.com/vercel/next.js>');
+  });
+
+  it('lays out html digests in the direction of their language', async () => {
+    const result = await run([file('WhatsApp Chat with Dev.txt', CHAT)], { languages: ['en', 'he'], repeats: 'off', format: 'html' });
+    if ('error' in result) throw new Error(result.error);
+    const [english, hebrew] = result.digests!.map(digest => digest.summary);
+    expect(english).toContain('<html lang="en" dir="ltr">');
+    expect(english).toContain('text-align:left;');
+    expect(hebrew).toContain('<html lang="he" dir="rtl">');
+    expect(hebrew).toContain('<body dir="rtl"');
+  });
+
+  it('archives runs with nothing to summarize, with the reason', async () => {
+    const result = await run([file('WhatsApp Chat with Dev.txt', CHAT)], { window: { window: 'dates', startDate: '2025-03-01', endDate: '2025-03-02' } });
+    if ('error' in result) throw new Error(result.error);
+    expect(result.message).toBe('No links found in the specified files or date range');
+
+    const { getRun } = await import('../history');
+    const record = await getRun(result.historyId!);
+    expect(record).toMatchObject({
+      message: 'No links found in the specified files or date range',
+      dates: { from: '01.03', to: '02.03' },
+      linkCount: 0,
+      provider: 'heuristic',
+    });
+    expect(record!.digests).toEqual([expect.objectContaining({ language: 'he', summary: result.summary, categories: [] })]);
+  });
+
+  it('rejects input it cannot analyze', async () => {
+    expect(await run([])).toMatchObject({ code: 'NO_FILES', status: 400 });
+    expect(await run([file('a.txt', CHAT)], { window: { window: 'dates', startDate: 'yesterday-ish' } }))
+      .toMatchObject({ code: 'INVALID_TIME_WINDOW', status: 400 });
+  });
+});
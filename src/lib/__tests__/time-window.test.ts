@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { resolveTimeWindow } from '../time-window';
+
+const now = new Date('2025-03-12T10:00:00Z');
+
+describe('resolveTimeWindow', () => {
+  it('covers whole days of the dates window in the given timezone', () => {
+    expect(resolveTimeWindow({ window: 'dates', startDate: '2025-03-01', endDate: '2025-03-02' }, 'Asia/Jerusalem', now)).toEqual({
+      kind: 'dates',
+      start: new Date('2025-02-28T22:00:00.000Z'),
+      end: new Date('2025-03-02T21:59:59.999Z'),
+    });
+  });
+
+  it('accepts a single-day dates window', () => {
+    expect(resolveTimeWindow({ window: 'dates', startDate: '2025-03-02', endDate: '2025-03-02' }, 'UTC', now)).not.toHaveProperty('error');
+  });
+
+  it('rejects a dates window that starts after it ends', () => {
+    expect(resolveTimeWindow({ window: 'dates', startDate: '2025-03-05', endDate: '2025-03-01' }, 'UTC', now))
+      .toEqual({ error: 'Date window starts after it ends' });
+  });
+
+  it('rejects a custom window that starts after it ends', () => {
+    expect(resolveTimeWindow({ window: 'custom', from: '2025-03-05T10:00', to: '2025-03-01T10:00' }, 'UTC', now))
+      .toEqual({ error: 'Custom window starts after it ends' });
+  });
+
+  it('rejects unreadable dates', () => {
+    expect(resolveTimeWindow({ window: 'dates', startDate: 'yesterday-ish' }, 'UTC', now)).toEqual({ error: 'Invalid start date: yesterday-ish' });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { detectTimestampFormat, parseTimestamp } from '../timestamp-format';
+
+describe('detectTimestampFormat', () => {
+  it('reads a US iPhone export with every day up to 12 as month first', () => {
+    const lines = [
+      '[3/5/25, 9:15:00 AM] Dana: morning',
+      '[3/6/25, 2:30:45 PM] Avi: https://example.com',
+      '[3/7/25, 11:02:10 AM] Dana: thanks',
+    ];
+    expect(detectTimestampFormat(lines)).toEqual({ dateOrder: 'MDY', clock: '12h' });
+  });
+
+  it('reads a US Android export as month first', () => {
+    const lines = [
+      '3/25/25, 2:30 PM - Dana: hi',
+      '3/26/25, 9:00 AM - Avi: hello',
+    ];
+    expect(detectTimestampFormat(lines)).toEqual({ dateOrder: 'MDY', clock: '12h' });
+  });
+
+  it('reads an Android export as day first', () => {
+    const lines = [
+      '05/03/2025, 14:30 - Dana: hi',
+      '06/03/2025, 09:00 - Avi: hello',
+      '07/03/2025, 18:45 - Dana: bye',
+    ];
+    expect(detectTimestampFormat(lines)).toEqual({ dateOrder: 'DMY', clock: '24h' });
+  });
+
+  it('reads dotted Android and iOS exports as day first', () => {
+    expect(detectTimestampFormat(['22.9.2024, 14:33 - Dana: hi', '23.9.2024, 08:10 - Avi: hey']))
+      .toEqual({ dateOrder: 'DMY', clock: '24h' });
+    expect(detectTimestampFormat(['[05.03.25, 14:30:45] Dana: hi', '[06.03.25, 09:00:00] Avi: hey']))
+      .toEqual({ dateOrder: 'DMY', clock: '24h' });
+  });
+
+  it('prefers the order with messages closer together', () => {
+    // Day first: 1, 2 and 4 March; month first: 3 January, 3 February, 3 April
+    const lines = ['01/03/2025, 10:00 - Dana: a', '02/03/2025, 10:00 - Dana: b', '04/03/2025, 10:00 - Dana: c'];
+    expect(detectTimestampFormat(lines).dateOrder).toBe('DMY');
+  });
+
+  it('falls back to day first, or month first with an AM/PM clock', () => {
+    expect(detectTimestampFormat(['05/03/2025, 14:30 - Dana: hi']).dateOrder).toBe('DMY');
+    expect(detectTimestampFormat(['5/3/25, 2:30 PM - Dana: hi']).dateOrder).toBe('MDY');
+  });
+
+  it('defaults to day first and 24 hours without timestamps', () => {
+    expect(detectTimestampFormat(['no header here'])).toEqual({ dateOrder: 'DMY', clock: '24h' });
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads 12 AM as midnight and 12 PM as noon', () => {
+    const format = { dateOrder: 'MDY', clock: '12h' } as const;
+    expect(parseTimestamp('[3/5/25, 12:10:00 AM] Dana: late', format)?.time).toMatchObject({ month: 3, day: 5, hour: 0, minute: 10 });
+    expect(parseTimestamp('[3/5/25, 12:10:00 PM] Dana: lunch', format)?.time).toMatchObject({ hour: 12 });
+    expect(parseTimestamp('[3/5/25, 2:30:45 PM] Dana: hi', format)?.time).toMatchObject({ hour: 14, second: 45 });
+  });
+
+  it('returns the length of the prefix to strip', () => {
+    const line = '25/03/2025, 14:30 - Dana: hi';
+    const parsed = parseTimestamp(line);
+    expect(line.substring(parsed!.length)).toBe('Dana: hi');
+  });
+
+  it('rejects impossible dates and hours', () => {
+    expect(parseTimestamp('31/02/2025, 10:00 - Dana: hi')).toBeNull();
+    expect(parseTimestamp('[3/5/25, 13:00:00 PM] Dana: hi', { dateOrder: 'MDY', clock: '12h' })).toBeNull();
+  });
+});
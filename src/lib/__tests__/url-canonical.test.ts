@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, displayUrl, getDomain, trimTrailingPunctuation } from '../url-canonical';
+
+describe('canonicalizeUrl', () => {
+  it.each([
+    ['https://www.Example.com/page/', 'example.com/page'],
+    ['http://example.com/page', 'example.com/page'],
+    ['example.com/page', 'example.com/page'],
+    ['https://example.com/a?utm_source=whatsapp&b=2&a=1&fbclid=xyz', 'example.com/a?a=1&b=2'],
+    ['https://example.com/#/app/route', 'example.com'],
+    ['https://youtu.be/abc123?si=tracking', 'youtube.com/watch?v=abc123'],
+    ['https://m.youtube.com/shorts/abc123', 'youtube.com/watch?v=abc123'],
+    ['https://twitter.com/user/status/1?s=20&t=abc', 'x.com/user/status/1'],
+    ['https://il.linkedin.com/posts/dana_post-activity-7123-abcd', 'linkedin.com/feed/update/urn:li:activity:7123'],
+    ['https://example.com:8080/x', 'example.com:8080/x'],
+  ])('%s -> %s', (url, canonical) => {
+    expect(canonicalizeUrl(url)).toBe(canonical);
+  });
+
+  it('gives the same key to the forms of one link', () => {
+    const forms = ['https://www.example.io/agent', 'example.io/agent?utm_source=x', 'http://example.io/agent/.'];
+    expect(new Set(forms.map(canonicalizeUrl)).size).toBe(1);
+  });
+});
+
+describe('displayUrl', () => {
+  it.each([
+    ['https://example.com/#/app/route', 'https://example.com/#/app/route'],
+    ['https://example.com/docs#install', 'https://example.com/docs#install'],
+    ['https://www.example.com/page', 'https://www.example.com/page'],
+    ['http://example.org/page?id=3', 'http://example.org/page?id=3'],
+    ['github.com/openai', 'https://github.com/openai'],
+    ['www.ynet.co.il', 'https://www.ynet.co.il'],
+    ['https://he.wikipedia.org/wiki/ישראל', 'https://he.wikipedia.org/wiki/ישראל'],
+    ['https://example.com/a?utm_source=whatsapp&b=2&fbclid=xyz', 'https://example.com/a?b=2'],
+    ['https://example.com/a?utm_medium=share#top', 'https://example.com/a#top'],
+    ['https://x.com/user/status/1?s=20&t=abc', 'https://x.com/user/status/1'],
+    ['https://example.com/a!', 'https://example.com/a'],
+  ])('%s -> %s', (url, shown) => {
+    expect(displayUrl(url)).toBe(shown);
+  });
+});
+
+describe('trimTrailingPunctuation', () => {
+  it('keeps balanced parentheses and drops the sentence ones', () => {
+    expect(trimTrailingPunctuation('https://en.wikipedia.org/wiki/Python_(programming_language)'))
+      .toBe('https://en.wikipedia.org/wiki/Python_(programming_language)');
+    expect(trimTrailingPunctuation('https://example.com/a).')).toBe('https://example.com/a');
+  });
+});
+
+describe('getDomain', () => {
+  it('drops the scheme, www, port and path', () => {
+    expect(getDomain('https://www.example.com:8080/page')).toBe('example.com');
+  });
+});
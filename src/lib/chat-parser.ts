@@ -0,0 +1,238 @@
+// WhatsApp chat export parser.
+// Turns the raw text of an exported chat into a stream of typed messages that
+// the link extractor (and any other analysis) can consume without having to
+// re-implement the date/sender handling.
+
+import {
+  detectTimestampFormat,
+  parseTimestamp,
+  timestampPattern,
+  TimestampFormat,
+} from './timestamp-format';
+import { DEFAULT_TIME_ZONE, zonedTimeToUtc } from './timezone';
+
+// Kinds of media WhatsApp refers to in an export
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'other';
+
+// An attachment marker found in a message body
+export interface ChatAttachment {
+  kind: AttachmentKind;
+  fileName?: string; // Missing when the export was made "without media"
+  omitted: boolean;  // True for "<Media omitted>" style placeholders
+}
+
+// A single message from a chat export
+export interface ChatMessage {
+  timestamp: Date;
+  sender?: string;        // Undefined for system events without an author
+  body: string;           // Message text including continuation lines
+  isSystem: boolean;      // Joins, leaves, subject changes, encryption notice etc.
+  attachments: ChatAttachment[];
+  groupName?: string;
+  fileName: string;       // The chat file the message was read from
+  lineNumber: number;     // 1-based line where the message starts
+}
+
+// Matches the author prefix left after the timestamp has been removed, e.g.
+// ~ David Horesh: message
+// Idan Openweb: message
+// ~ Adir: message
+const senderPattern = /^~?\s*([^:]{1,80}?):\s/;
+
+// Invisible direction marks WhatsApp sprinkles into iOS exports
+const directionMarksPattern = /[\u200e\u200f\u202a-\u202e]/g;
+
+// A participant as iOS exports name them in events: a phone number or up to
+// four capitalized (or Hebrew) words
+const participantPattern = String.raw`(?:~\s?)?(?:\+[\d\s()-]{6,20}|[\p{Lu}\p{Lo}][\p{L}\p{M}'.-]*(?: [\p{Lu}\p{Lo}][\p{L}\p{M}'.-]*){0,3})`;
+const participantsPattern = String.raw`${participantPattern}(?:, ${participantPattern})*(?:,? and ${participantPattern})?`;
+
+// Events as the whole body of an authored line (iOS lists the group itself as
+// the sender). Only full lines in these shapes count, so a member writing "I
+// added you to the doc" is not taken for an event.
+const systemMessagePatterns: RegExp[] = [
+  String.raw`^${participantPattern} (?:added|removed) (?:you|${participantsPattern})$`,
+  String.raw`^${participantPattern} (?:left|joined(?: using this group's invite link)?)$`,
+  String.raw`^${participantPattern} requested to join\.?$`,
+  String.raw`^${participantPattern} changed the subject (?:from ".*" )?to ".*"$`,
+  String.raw`^${participantPattern} changed this group's (?:icon|description|settings.*)$`,
+  String.raw`^${participantPattern} created (?:the )?group ".*"$`,
+  String.raw`^${participantPattern} (?:הוסיף|הסיר)\/ה (?:אותך|${participantsPattern})$`,
+  String.raw`^${participantPattern} (?:הצטרף|עזב)\/ה(?: באמצעות קישור ההזמנה.*)?$`,
+  String.raw`^${participantPattern} (?:שינה\/תה את נושא הקבוצה|יצר\/ה את הקבוצה) .*$`,
+  String.raw`^(?:Messages and calls are end-to-end encrypted|ההודעות והשיחות מוצפנות מקצה לקצה)`,
+].map(pattern => new RegExp(pattern, 'u'));
+
+// Attachment markers as they appear in iOS and Android exports
+const attachedFilePattern = /<attached:\s*([^>]+)>/gi;
+const fileAttachedPattern = /(\S+\.[a-z0-9]{2,5})\s*\(file attached\)/gi;
+const mediaOmittedPattern = /<Media omitted>|<המדיה לא נכללה>|\b(image|video|audio|sticker|document|GIF) omitted\b/gi;
+
+// Extracts date from a WhatsApp message line. The export holds the wall-clock
+// time of the exporting phone, so it is read in the given timezone.
+export function extractDateFromMessage(
+  messageLine: string,
+  format?: TimestampFormat,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date | null {
+  const parsed = parseTimestamp(messageLine.replace(directionMarksPattern, ''), format);
+  return parsed ? zonedTimeToUtc(parsed.time, timeZone) : null;
+}
+
+// Extract sender name from the part of a line that follows the timestamp
+export function extractSender(lineWithoutDate: string): string | undefined {
+  const match = lineWithoutDate.match(senderPattern);
+  if (!match || !match[1]) {
+    return undefined;
+  }
+
+  // In case there are multiple tildes, clean them up
+  const sender = match[1].replace(/^~+\s*/, '').trim();
+  return sender || undefined;
+}
+
+// Check if the body of a message with a sender is a system event. Events are
+// single lines without links, so a shared link is never dropped as one.
+export function isSystemMessage(body: string): boolean {
+  if (body.includes('\n') || /https?:\/\/|www\./i.test(body)) {
+    return false;
+  }
+  return systemMessagePatterns.some(pattern => pattern.test(body));
+}
+
+// Guess the attachment kind from a WhatsApp media file name or placeholder word
+function attachmentKindFromName(name: string): AttachmentKind {
+  const lower = name.toLowerCase();
+  if (/photo|^img-|image|\.(jpe?g|png|webp|heic)$/.test(lower)) return 'image';
+  if (/video|^vid-|gif|\.(mp4|mov|3gp)$/.test(lower)) return 'video';
+  if (/audio|^ptt-|^aud-|\.(opus|ogg|m4a|mp3|aac)$/.test(lower)) return 'audio';
+  if (/sticker|^stk-|\.webp$/.test(lower)) return 'sticker';
+  if (/document|\.(pdf|docx?|xlsx?|pptx?|txt|zip|csv|vcf)$/.test(lower)) return 'document';
+  return 'other';
+}
+
+// Collect the attachment markers found in a message body
+export function extractAttachments(body: string): ChatAttachment[] {
+  const attachments: ChatAttachment[] = [];
+
+  for (const match of body.matchAll(attachedFilePattern)) {
+    const fileName = match[1].trim();
+    attachments.push({ kind: attachmentKindFromName(fileName), fileName, omitted: false });
+  }
+
+  for (const match of body.matchAll(fileAttachedPattern)) {
+    const fileName = match[1].trim();
+    attachments.push({ kind: attachmentKindFromName(fileName), fileName, omitted: false });
+  }
+
+  for (const match of body.matchAll(mediaOmittedPattern)) {
+    attachments.push({ kind: match[1] ? attachmentKindFromName(match[1]) : 'other', omitted: true });
+  }
+
+  return attachments;
+}
+
+// Helper function to extract group name from filename
+export function extractGroupName(fileName: string): string | undefined {
+  let match;
+
+  // 1. Try standard format: "WhatsApp Chat with [Group Name]_chat.txt" (or without _chat)
+  match = fileName.match(/^WhatsApp Chat with (.*?)(?:_chat)?\.txt$/i);
+  if (match && match[1]) {
+    return match[1].trim();
+  }
+
+  // 2. Try user's format: "WhatsApp Chat - [Group Name].(txt|zip)"
+  match = fileName.match(/^WhatsApp Chat - (.*?)\.(?:txt|zip)$/i);
+  if (match && match[1]) {
+    return match[1].trim();
+  }
+
+  // 3. Try generic format: "[Group Name].txt" (but avoid generic names)
+  match = fileName.match(/^(.*?)\.txt$/i);
+  if (match && match[1]) {
+    const potentialName = match[1].trim();
+    // Avoid matching just '_chat' or other likely non-names if it's the only pattern that matched
+    if (potentialName.toLowerCase() !== '_chat' && !potentialName.toLowerCase().startsWith('whatsapp chat')) {
+      return potentialName;
+    }
+  }
+
+  console.log(`extractGroupName: No pattern matched for ${fileName}`);
+  return undefined; // Return undefined if no suitable name could be extracted
+}
+
+// Options for parsing a single chat file
+export interface ParseChatOptions {
+  fileName: string;
+  groupName?: string;
+  timeZone?: string; // IANA zone the export's wall-clock times are in
+}
+
+// Parses the content of a single chat export into messages
+export function parseChatExport(fileContent: string, options: ParseChatOptions): ChatMessage[] {
+  const { fileName, groupName, timeZone = DEFAULT_TIME_ZONE } = options;
+  console.log(`Parsing chat export ${fileName} (${fileContent.length} characters)`);
+
+  const lines = fileContent.split(/\r?\n/).map(line => line.replace(directionMarksPattern, ''));
+  const format = detectTimestampFormat(lines);
+  const messages: ChatMessage[] = [];
+
+  let current: { timestamp: Date; header: string; bodyLines: string[]; lineNumber: number } | null = null;
+  let skippedHeaders = 0;
+
+  const flush = () => {
+    if (!current) {
+      return;
+    }
+
+    const sender = extractSender(current.header);
+    const firstLine = sender ? current.header.replace(senderPattern, '') : current.header;
+    const body = [firstLine, ...current.bodyLines].join('\n').trim();
+
+    messages.push({
+      timestamp: current.timestamp,
+      sender,
+      body,
+      // Messages without an author are always events; authored ones may still be
+      // events in iOS exports, where the group itself is listed as the sender
+      isSystem: !sender || isSystemMessage(body),
+      attachments: extractAttachments(body),
+      groupName,
+      fileName,
+      lineNumber: current.lineNumber,
+    });
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // A line that starts with a timestamp begins a new message
+    if (timestampPattern.test(line)) {
+      flush();
+
+      const parsed = parseTimestamp(line, format);
+      if (!parsed) {
+        // Unparseable header - drop the message and its continuation lines
+        skippedHeaders++;
+        continue;
+      }
+
+      current = {
+        timestamp: zonedTimeToUtc(parsed.time, timeZone),
+        header: line.slice(parsed.length).trim(),
+        bodyLines: [],
+        lineNumber: i + 1,
+      };
+    } else if (current && line.trim()) {
+      // This is a continuation of a multi-line message
+      current.bodyLines.push(line.trim());
+    }
+  }
+
+  flush();
+
+  console.log(`Parsed ${messages.length} messages from ${fileName} (${lines.length} lines, ${skippedHeaders} unparseable headers)`);
+  return messages;
+}
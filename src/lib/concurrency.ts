@@ -0,0 +1,21 @@
+// Runs an async worker over items with at most `limit` calls in flight,
+// returning the results in the original order.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => runNext());
+  await Promise.all(runners);
+  return results;
+}
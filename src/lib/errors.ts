@@ -0,0 +1,57 @@
+// Error codes returned by the API, so the page can tell the user what went
+// wrong (and whether trying again may help) without parsing error messages.
+
+import type { LlmError } from './llm-provider';
+
+export type ErrorCode =
+  | 'NO_FILES'
+  | 'INVALID_TIME_WINDOW'
+  | 'FILE_PARSE_ERROR'
+  | 'MODEL_AUTH'          // The API key was rejected
+  | 'MODEL_RATE_LIMIT'    // Rate limit or quota exceeded
+  | 'MODEL_TIMEOUT'
+  | 'MODEL_UNAVAILABLE'   // Connection failed or the provider returned a server error
+  | 'MODEL_BAD_RESPONSE'  // The model kept answering with something unusable
+  | 'INVALID_TEMPLATE'    // A summary template could not be parsed
+  | 'INVALID_REVIEW'      // The reviewed summary sent to be rendered again is malformed
+  | 'INTERNAL';
+
+// Hebrew messages shown on the page for each code
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+  NO_FILES: 'לא הועלו קבצים',
+  INVALID_TIME_WINDOW: 'טווח הזמן שנבחר אינו תקין',
+  FILE_PARSE_ERROR: 'לא הצלחנו לקרוא את אחד הקבצים. ודא שזה ייצוא שיחה של וואטסאפ (zip או txt)',
+  MODEL_AUTH: 'מפתח ה-API של המודל נדחה. בדוק את הגדרות המפתח בשרת',
+  MODEL_RATE_LIMIT: 'חרגנו ממגבלת השימוש של המודל. נסה שוב בעוד כמה דקות',
+  MODEL_TIMEOUT: 'המודל לא הגיב בזמן. נסה שוב, או בחר טווח זמן קצר יותר',
+  MODEL_UNAVAILABLE: 'שירות המודל אינו זמין כרגע. נסה שוב בעוד כמה דקות',
+  MODEL_BAD_RESPONSE: 'המודל החזיר תשובה לא תקינה. נסה שוב',
+  INVALID_TEMPLATE: 'התבנית אינה תקינה',
+  INVALID_REVIEW: 'הסיכום הערוך אינו תקין',
+  INTERNAL: 'שגיאה בעיבוד הקבצים',
+};
+
+// Maps an error thrown while generating the summary to a code and HTTP status
+export function classifyError(error: unknown): { code: ErrorCode; status: number } {
+  if (!(error instanceof Error)) {
+    return { code: 'INTERNAL', status: 500 };
+  }
+  const { status, code } = error as LlmError;
+
+  if (status === 401 || status === 403 || code === 'invalid_api_key') {
+    return { code: 'MODEL_AUTH', status: 502 };
+  }
+  if (status === 429 || code === 'insufficient_quota' || code === 'rate_limit_exceeded') {
+    return { code: 'MODEL_RATE_LIMIT', status: 503 };
+  }
+  if (error.name === 'APIConnectionTimeoutError' || code === 'ETIMEDOUT' || error.message.toLowerCase().includes('timeout')) {
+    return { code: 'MODEL_TIMEOUT', status: 504 };
+  }
+  if (error.name === 'APIConnectionError' || (status !== undefined && status >= 500)) {
+    return { code: 'MODEL_UNAVAILABLE', status: 503 };
+  }
+  if (code === 'INVALID_RESPONSE') {
+    return { code: 'MODEL_BAD_RESPONSE', status: 502 };
+  }
+  return { code: 'INTERNAL', status: 500 };
+}
@@ -0,0 +1,73 @@
+// Readiness of the model provider. The provider is probed at most once per TTL
+// and the result is shared, so status checks never add a paid call per request.
+
+import { classifyError, ErrorCode } from './errors';
+import { getProvider, ProviderName } from './llm-provider';
+
+export interface HealthStatus {
+  status: 'ok' | 'offline' | 'error'; // offline: the heuristic provider, no model
+  provider: ProviderName;
+  model: string;
+  checkedAt: string;
+  latencyMs?: number;
+  error?: string;
+  errorCode?: ErrorCode;
+}
+
+// Successful checks are trusted longer than failed ones, so recovery shows quickly
+const OK_TTL_MS = 5 * 60 * 1000;
+const ERROR_TTL_MS = 30 * 1000;
+
+let cached: { health: HealthStatus; expiresAt: number } | null = null;
+let pending: Promise<HealthStatus> | null = null;
+
+async function probeProvider(): Promise<HealthStatus> {
+  const provider = getProvider();
+  const checkedAt = new Date().toISOString();
+
+  if (provider.name === 'heuristic') {
+    return { status: 'offline', provider: provider.name, model: provider.model, checkedAt };
+  }
+
+  const startTime = Date.now();
+  try {
+    console.log(`Checking ${provider.name} health...`);
+    await provider.chat({
+      messages: [{ role: 'user', content: 'Say hello' }],
+      maxTokens: 5,
+    });
+    const latencyMs = Date.now() - startTime;
+    console.log(`${provider.name} health check succeeded in ${latencyMs}ms`);
+    return { status: 'ok', provider: provider.name, model: provider.model, checkedAt, latencyMs };
+  } catch (error) {
+    console.error(`${provider.name} health check failed:`, error instanceof Error ? error.message : error);
+    return {
+      status: 'error',
+      provider: provider.name,
+      model: provider.model,
+      checkedAt,
+      latencyMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode: classifyError(error).code,
+    };
+  }
+}
+
+// The provider's status, probed again only when the cached one has expired
+// (or when forced). Concurrent callers share one probe.
+export async function getHealthStatus(force = false): Promise<HealthStatus> {
+  if (!force && cached && Date.now() < cached.expiresAt) {
+    return cached.health;
+  }
+  if (!pending) {
+    pending = probeProvider()
+      .then(health => {
+        cached = { health, expiresAt: Date.now() + (health.status === 'error' ? ERROR_TTL_MS : OK_TTL_MS) };
+        return health;
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }
+  return pending;
+}
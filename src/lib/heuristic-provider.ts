@@ -0,0 +1,204 @@
+// A provider that needs no model at all: each link is described from its
+// domain, page metadata and the message it was shared in. Used when no API key
+// is configured, for offline runs, and for links the model could not describe.
+
+import { DEFAULT_LANGUAGE, SummaryLanguage } from './languages';
+import type { LinkWithContext } from './link-extractor';
+import type { ChatRequest, ChatResponse, LlmProvider } from './llm-provider';
+import type { SummarizedLink } from './summary-types';
+import { OTHER_CATEGORY_ID } from './taxonomy';
+import { getDomain } from './url-canonical';
+
+type SiteType =
+  | 'video' | 'article' | 'website' | 'github' | 'gitlab' | 'linkedin' | 'x' | 'facebook'
+  | 'instagram' | 'newsletter' | 'productHunt' | 'googleDoc' | 'whatsappGroup' | 'discord';
+
+// Link types of well-known sites
+const SITE_TYPES: Record<string, SiteType> = {
+  'youtube.com': 'video',
+  'vimeo.com': 'video',
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'linkedin.com': 'linkedin',
+  'x.com': 'x',
+  'facebook.com': 'facebook',
+  'instagram.com': 'instagram',
+  'medium.com': 'article',
+  'substack.com': 'newsletter',
+  'producthunt.com': 'productHunt',
+  'docs.google.com': 'googleDoc',
+  'chat.whatsapp.com': 'whatsappGroup',
+  'discord.gg': 'discord',
+};
+
+// How each link type is written in the digest's language
+const SITE_TYPE_LABELS: Record<SummaryLanguage, Record<SiteType, string>> = {
+  he: {
+    video: 'סרטון',
+    article: 'מאמר',
+    website: 'אתר',
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    linkedin: 'פוסט לינקדאין',
+    x: 'פוסט ב-X',
+    facebook: 'פוסט בפייסבוק',
+    instagram: 'פוסט באינסטגרם',
+    newsletter: 'ניוזלטר',
+    productHunt: 'מוצר ב-Product Hunt',
+    googleDoc: 'מסמך Google',
+    whatsappGroup: 'קבוצת WhatsApp',
+    discord: 'קהילת Discord',
+  },
+  en: {
+    video: 'Video',
+    article: 'Article',
+    website: 'Website',
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    linkedin: 'LinkedIn post',
+    x: 'Post on X',
+    facebook: 'Facebook post',
+    instagram: 'Instagram post',
+    newsletter: 'Newsletter',
+    productHunt: 'Product on Product Hunt',
+    googleDoc: 'Google document',
+    whatsappGroup: 'WhatsApp group',
+    discord: 'Discord community',
+  },
+  ar: {
+    video: 'فيديو',
+    article: 'مقال',
+    website: 'موقع',
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    linkedin: 'منشور على LinkedIn',
+    x: 'منشور على X',
+    facebook: 'منشور على فيسبوك',
+    instagram: 'منشور على إنستغرام',
+    newsletter: 'نشرة إخبارية',
+    productHunt: 'منتج على Product Hunt',
+    googleDoc: 'مستند Google',
+    whatsappGroup: 'مجموعة WhatsApp',
+    discord: 'مجتمع Discord',
+  },
+  ru: {
+    video: 'Видео',
+    article: 'Статья',
+    website: 'Сайт',
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    linkedin: 'Пост в LinkedIn',
+    x: 'Пост в X',
+    facebook: 'Пост в Facebook',
+    instagram: 'Пост в Instagram',
+    newsletter: 'Рассылка',
+    productHunt: 'Продукт на Product Hunt',
+    googleDoc: 'Документ Google',
+    whatsappGroup: 'Группа WhatsApp',
+    discord: 'Сообщество Discord',
+  },
+};
+
+// Categories (ids of the default taxonomy) by domain
+const DOMAIN_CATEGORIES: Record<string, string> = {
+  'openai.com': 'ai-tools',
+  'chatgpt.com': 'ai-tools',
+  'claude.ai': 'ai-tools',
+  'anthropic.com': 'ai-tools',
+  'huggingface.co': 'ai-tools',
+  'midjourney.com': 'ai-tools',
+  'perplexity.ai': 'ai-tools',
+  'cursor.com': 'ai-tools',
+  'github.com': 'dev-resources',
+  'gitlab.com': 'dev-resources',
+  'stackoverflow.com': 'dev-resources',
+  'dev.to': 'dev-resources',
+  'npmjs.com': 'dev-resources',
+  'producthunt.com': 'saas-products',
+  'linkedin.com': 'social-networking',
+  'x.com': 'social-networking',
+  'facebook.com': 'social-networking',
+  'instagram.com': 'social-networking',
+  'meetup.com': 'social-networking',
+  'lu.ma': 'social-networking',
+  'docs.google.com': 'collaboration',
+  'forms.gle': 'collaboration',
+  'chat.whatsapp.com': 'collaboration',
+  'discord.gg': 'collaboration',
+};
+
+// Categories by words in the page title, description or message, checked in order
+const KEYWORD_CATEGORIES: { pattern: RegExp; category: string }[] = [
+  { pattern: /\b(ai|gpt|llm|agents?|chatbot|prompt)\b|בינה מלאכותית|צ'אטבוט/i, category: 'ai-tools' },
+  { pattern: /\b(api|sdk|library|framework|tutorial|docs|code)\b|מדריך|קורס|פיתוח|קוד/i, category: 'dev-resources' },
+  { pattern: /\b(marketing|seo|sales|pricing|growth|startup)\b|שיווק|מכירות|תמחור|לקוחות|יזמות/i, category: 'business-marketing' },
+  { pattern: /\b(saas|app|platform|tool)\b|אפליקציה|פלטפורמה|כלי/i, category: 'saas-products' },
+  { pattern: /\b(meetup|event|webinar|community)\b|מיטאפ|כנס|וובינר|קהילה/i, category: 'social-networking' },
+];
+
+// Finds the most specific entry of a domain table, e.g. "docs.google.com" before "google.com"
+function lookupDomain<T>(table: Record<string, T>, domain: string): T | undefined {
+  for (let candidate = domain; candidate.includes('.'); candidate = candidate.slice(candidate.indexOf('.') + 1)) {
+    if (candidate in table) return table[candidate];
+  }
+  return undefined;
+}
+
+// The message the link was shared in, without the link itself
+function messageText(link: LinkWithContext): string {
+  const text = link.fullMessageText || link.messageContext || '';
+  return text.replace(link.occurrences[0]?.originalUrl || link.url, '').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text;
+}
+
+// Describes a link without a model, in the given language, and picks its category
+export function summarizeLinkHeuristically(
+  link: LinkWithContext,
+  language: SummaryLanguage = DEFAULT_LANGUAGE
+): { category: string; link: SummarizedLink } {
+  const domain = getDomain(link.url);
+  const metadata = link.metadata;
+  const message = messageText(link);
+  const text = [metadata?.title, metadata?.description, message].filter(Boolean).join(' ');
+
+  const category = lookupDomain(DOMAIN_CATEGORIES, domain)
+    || KEYWORD_CATEGORIES.find(rule => rule.pattern.test(text))?.category
+    || OTHER_CATEGORY_ID;
+
+  const siteType = lookupDomain(SITE_TYPES, domain)
+    || (metadata?.ogType?.startsWith('video') ? 'video' : metadata?.ogType === 'article' ? 'article' : 'website');
+  const type = SITE_TYPE_LABELS[language][siteType];
+
+  return {
+    category,
+    link: {
+      name: metadata?.title || metadata?.siteName || domain,
+      type,
+      description: truncate(metadata?.description || message || metadata?.title || domain, 200),
+      context: message ? truncate(message, 150) : undefined,
+      keyPoints: [],
+      userValue: '',
+      url: link.url,
+    },
+  };
+}
+
+// Answers summary requests (the ones that carry links) with the same JSON the
+// model is asked for; any other request gets a fixed reply.
+export const heuristicProvider: LlmProvider = {
+  name: 'heuristic',
+  model: 'heuristic',
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    if (!request.links) {
+      return { content: request.jsonSchema ? '{}' : 'שלום' };
+    }
+    const links = request.links.map(link => {
+      const { category, link: summary } = summarizeLinkHeuristically(link, request.language);
+      return { ...summary, category, context: summary.context ?? null, complexity: null };
+    });
+    return { content: JSON.stringify({ links }) };
+  },
+};
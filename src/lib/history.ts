@@ -0,0 +1,227 @@
+// Archive of past runs under DATA_DIR/history: one file per run with its input
+// files, window, structured result, rendered text, model and cost, plus an
+// index used for listing. An archived run can be rendered again in any format
+// and compared with another run, e.g. after uploading a fresher export.
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import type { SummaryLanguage } from './languages';
+import { sumUsage, TokenUsage } from './model-pricing';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage';
+import type { RepeatedLink, RunStats, StructuredCategory } from './structured-summary';
+import type { SummaryStats } from './summarizer';
+import type { SummaryFormat } from './summary-formats';
+import type { ResolvedTimeWindow, TimeWindowKind } from './time-window';
+import { canonicalizeUrl } from './url-canonical';
+
+// The summary of a run in one language
+export interface HistoryDigest {
+  language: SummaryLanguage;
+  direction: 'rtl' | 'ltr';
+  summary: string;
+  parts?: string[];
+  stats: SummaryStats;
+  categories: StructuredCategory[];
+  repeats?: RepeatedLink[]; // The "mentioned again" section
+}
+
+// What the history list shows for each run
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  fileNames: string[];
+  timeZone: string;
+  window: { kind: TimeWindowKind; start: string | null; end: string | null };
+  dates: { from: string; to: string };
+  format: SummaryFormat;
+  languages: SummaryLanguage[];
+  linkCount: number;
+  categoryCount: number;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  costUsd?: number; // Unknown for models without a price
+  message?: string; // Why nothing was summarized, for runs with an empty digest
+}
+
+export interface HistoryRecord extends HistoryEntry {
+  run: RunStats;
+  digests: HistoryDigest[];
+}
+
+export interface ArchivedRun {
+  fileNames: string[];
+  timeZone: string;
+  window: ResolvedTimeWindow;
+  dates: { from: string; to: string };
+  format: SummaryFormat;
+  run: RunStats;
+  digests: HistoryDigest[];
+  message?: string;
+}
+
+// A link as compared between two runs
+export interface DiffLink {
+  url: string;
+  name: string;
+  category: string; // Category name in the compared language
+  description: string;
+  timesShared: number;
+}
+
+export interface ChangedLink {
+  before: DiffLink;
+  after: DiffLink;
+  fields: (keyof DiffLink)[]; // What differs
+}
+
+export interface RunDiff {
+  from: HistoryEntry;
+  to: HistoryEntry;
+  language: SummaryLanguage;
+  sameWindow: boolean; // Comparing runs over different windows is allowed, but mostly shows the window change
+  added: DiffLink[];
+  removed: DiffLink[];
+  changed: ChangedLink[];
+  unchanged: number;
+}
+
+const indexFile = () => dataPath('history', 'index.json');
+const runFile = (id: string) => dataPath('history', `${id}.json`);
+
+// Run ids come from URLs; only accept the UUIDs we hand out
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Saves a finished run and returns its history entry. A failure is logged and
+// doesn't fail the analysis.
+export async function archiveRun(archived: ArchivedRun): Promise<HistoryEntry | null> {
+  const [main] = archived.digests;
+  const { usage, costUsd } = sumUsage(archived.digests.map(digest => digest.stats));
+  const entry: HistoryEntry = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    fileNames: archived.fileNames,
+    timeZone: archived.timeZone,
+    window: {
+      kind: archived.window.kind,
+      start: archived.window.start?.toISOString() || null,
+      end: archived.window.end?.toISOString() || null,
+    },
+    dates: archived.dates,
+    format: archived.format,
+    languages: archived.digests.map(digest => digest.language),
+    linkCount: main.categories.reduce((total, category) => total + category.links.length, 0),
+    categoryCount: main.categories.length,
+    provider: main.stats.provider,
+    model: main.stats.model,
+    usage,
+    costUsd,
+    message: archived.message,
+  };
+  const record: HistoryRecord = { ...entry, run: archived.run, digests: archived.digests };
+
+  try {
+    await writeJsonFile(runFile(entry.id), record);
+    await withFileLock(indexFile(), async () => {
+      const entries = await readJsonFile<HistoryEntry[]>(indexFile(), []);
+      await writeJsonFile(indexFile(), [entry, ...entries]);
+    });
+    console.log(`Archived run ${entry.id} (${entry.linkCount} links)`);
+    return entry;
+  } catch (error) {
+    console.error('Failed to archive the run:', error);
+    return null;
+  }
+}
+
+// Past runs, newest first
+export async function listRuns(): Promise<HistoryEntry[]> {
+  return readJsonFile<HistoryEntry[]>(indexFile(), []);
+}
+
+// Runs archived since the given time, newest first
+export async function recentRuns(since: Date): Promise<HistoryRecord[]> {
+  const entries = (await listRuns()).filter(entry => new Date(entry.createdAt) >= since);
+  const records = await Promise.all(entries.map(entry => getRun(entry.id)));
+  return records.filter((record): record is HistoryRecord => record !== null);
+}
+
+export async function getRun(id: string): Promise<HistoryRecord | null> {
+  if (!RUN_ID_PATTERN.test(id)) return null;
+  return readJsonFile<HistoryRecord | null>(runFile(id), null);
+}
+
+export async function deleteRun(id: string): Promise<boolean> {
+  if (!RUN_ID_PATTERN.test(id)) return false;
+  const removed = await withFileLock(indexFile(), async () => {
+    const entries = await readJsonFile<HistoryEntry[]>(indexFile(), []);
+    const remaining = entries.filter(entry => entry.id !== id);
+    await writeJsonFile(indexFile(), remaining);
+    return remaining.length < entries.length;
+  });
+  await fs.rm(runFile(id), { force: true });
+  console.log(`Deleted run ${id} from the history`);
+  return removed;
+}
+
+// The run's digest in a language, or its main one
+export function runDigest(record: HistoryRecord, language?: SummaryLanguage): HistoryDigest {
+  return record.digests.find(digest => digest.language === language) || record.digests[0];
+}
+
+function diffLinks(categories: StructuredCategory[]): Map<string, DiffLink> {
+  const links = new Map<string, DiffLink>();
+  for (const category of categories) {
+    for (const link of category.links) {
+      links.set(link.canonicalUrl || canonicalizeUrl(link.url), {
+        url: link.url,
+        name: link.name,
+        category: category.name,
+        description: link.description,
+        timesShared: link.timesShared,
+      });
+    }
+  }
+  return links;
+}
+
+// The list fields of a run, without its results
+function entryOf(record: HistoryRecord): HistoryEntry {
+  const entry: Partial<HistoryRecord> = { ...record };
+  delete entry.digests;
+  delete entry.run;
+  return entry as HistoryEntry;
+}
+
+// What changed from one run to another: links added, removed, or described,
+// categorized or shared differently
+export function diffRuns(from: HistoryRecord, to: HistoryRecord, language?: SummaryLanguage): RunDiff {
+  const target = language || to.digests[0].language;
+  const before = diffLinks(runDigest(from, target).categories);
+  const after = diffLinks(runDigest(to, target).categories);
+  const compared: (keyof DiffLink)[] = ['name', 'category', 'description', 'timesShared'];
+
+  const changed: ChangedLink[] = [];
+  let unchanged = 0;
+  for (const [url, link] of after) {
+    const previous = before.get(url);
+    if (!previous) continue;
+    const fields = compared.filter(field => previous[field] !== link[field]);
+    if (fields.length > 0) {
+      changed.push({ before: previous, after: link, fields });
+    } else {
+      unchanged++;
+    }
+  }
+
+  return {
+    from: entryOf(from),
+    to: entryOf(to),
+    language: target,
+    sameWindow: from.window.kind === to.window.kind && from.window.start === to.window.start && from.window.end === to.window.end,
+    added: [...after].filter(([url]) => !before.has(url)).map(([, link]) => link),
+    removed: [...before].filter(([url]) => !after.has(url)).map(([, link]) => link),
+    changed,
+    unchanged,
+  };
+}
@@ -0,0 +1,64 @@
+// Renders a summary as a standalone HTML page for newsletters, in the direction
+// of its language.
+// Email clients drop <style> blocks and most layout CSS, so the layout is a
+// single table with inline styles only.
+
+import { DEFAULT_LANGUAGE, getLanguage } from './languages';
+import { LineMarkup, RenderInput, renderBlocks } from './summary-markup';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const FONT = 'font-family:Arial,Helvetica,sans-serif;';
+const TEXT_STYLE = `${FONT}font-size:14px;line-height:1.5;color:#222222;`;
+const INDENT = '&nbsp;&nbsp;&nbsp;&nbsp;';
+
+const htmlMarkup: LineMarkup = {
+  escape: escapeHtml,
+  bold: text => `<strong>${text}</strong>`,
+  heading: (text, level) => level === 1
+    ? `<h1 style="${FONT}font-size:22px;color:#111111;margin:0 0 4px 0;">${text}</h1>`
+    : `<h2 style="${FONT}font-size:18px;color:#111111;margin:24px 0 8px 0;">${text}</h2>`,
+  link: url => `<a href="${escapeHtml(url)}" style="color:#0b66c3;" dir="ltr">${escapeHtml(url)}</a>`,
+  bullets: ['', `${INDENT}• `, `${INDENT}${INDENT}◦ `],
+};
+
+// Each line of a block becomes a paragraph; headings are left as they are
+function renderBlock(block: string): string {
+  const lines = block.split('\n')
+    .filter(line => line.trim())
+    .map(line => (line.startsWith('<h') ? line : `<p style="${TEXT_STYLE}margin:0;">${line}</p>`));
+  return `<div style="margin:0 0 16px 0;">\n${lines.join('\n')}\n</div>`;
+}
+
+export function renderHtml(input: RenderInput): string {
+  const { header, categories } = renderBlocks(input, htmlMarkup);
+  const blocks = [header, ...categories.flatMap(category => [category.header, ...category.links])];
+  const { code, direction } = getLanguage(input.language || DEFAULT_LANGUAGE);
+  const align = direction === 'rtl' ? 'right' : 'left';
+
+  return `<!DOCTYPE html>
+<html lang="${code}" dir="${direction}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body dir="${direction}" style="margin:0;padding:0;background-color:#f4f4f4;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color:#f4f4f4;">
+<tr><td align="center" style="padding:16px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width:600px;width:100%;background-color:#ffffff;">
+<tr><td dir="${direction}" align="${align}" style="${TEXT_STYLE}padding:24px;text-align:${align};">
+${blocks.map(renderBlock).join('\n')}
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
@@ -0,0 +1,214 @@
+// Background analysis jobs, for exports too large to summarize within one
+// request. A job's input and state are persisted under DATA_DIR/jobs/<id>, and
+// a local worker queue runs the jobs one after another (JOB_CONCURRENCY at a
+// time). Jobs that were queued or running when the server stopped are picked
+// up again on start.
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { mapWithConcurrency } from './concurrency';
+import { classifyError, ErrorCode } from './errors';
+import type { SummaryLanguage } from './languages';
+import { AnalysisInput, AnalysisResult, OutputFormat, PartialLink, runAnalysis } from './pipeline';
+import type { RepeatMode } from './repeats';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { SummaryFormat } from './summary-formats';
+import type { TimeWindowParams } from './time-window';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  fileNames: string[];
+  progress: string[];      // Progress messages, oldest first
+  partial: PartialLink[];  // Links summarized so far
+  result?: AnalysisResult;
+  error?: { error: string; code: ErrorCode; details?: unknown };
+}
+
+// What is stored to run the job; the files themselves are kept next to it
+interface JobInput {
+  timeZone?: string | null;
+  window: TimeWindowParams;
+  output?: OutputFormat;
+  format?: SummaryFormat;
+  maxMessageLength?: number;
+  languages?: SummaryLanguage[];
+  repeats?: RepeatMode;
+  lookbackDays?: number;
+  fileNames: string[];
+}
+
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '', 10) || 1);
+
+// Finished jobs are kept this long so their results can still be fetched
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const jobDir = (id: string) => dataPath('jobs', id);
+const jobFile = (id: string) => dataPath('jobs', id, 'job.json');
+const inputFile = (id: string) => dataPath('jobs', id, 'input.json');
+const uploadFile = (id: string, index: number) => dataPath('jobs', id, `upload-${index}`);
+
+// Job ids come from URLs; only accept the UUIDs we hand out
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export async function getJob(id: string): Promise<Job | null> {
+  if (!JOB_ID_PATTERN.test(id)) return null;
+  return readJsonFile<Job | null>(jobFile(id), null);
+}
+
+// Applies a change to a job's state file. Only the worker running a job writes
+// to it, so no lock is needed.
+async function updateJob(id: string, change: (job: Job) => void): Promise<Job | null> {
+  const job = await getJob(id);
+  if (!job) return null;
+  change(job);
+  await writeJsonFile(jobFile(id), job);
+  return job;
+}
+
+async function loadInput(id: string): Promise<AnalysisInput> {
+  const input = await readJsonFile<JobInput | null>(inputFile(id), null);
+  if (!input) {
+    throw new Error(`Input of job ${id} is missing`);
+  }
+  const files = await Promise.all(input.fileNames.map(async (name, index) => {
+    const buffer = await fs.readFile(uploadFile(id, index));
+    return { name, data: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer };
+  }));
+  const { timeZone, window, output, format, maxMessageLength, languages, repeats, lookbackDays } = input;
+  return { files, timeZone, window, output, format, maxMessageLength, languages, repeats, lookbackDays };
+}
+
+// Runs one job to completion, recording progress and the outcome
+async function runJob(id: string): Promise<void> {
+  console.log(`Starting job ${id}`);
+  await updateJob(id, job => {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+  });
+
+  // Progress writes are chained so they land in order and before the final state
+  let progressWrites: Promise<unknown> = Promise.resolve();
+
+  try {
+    const input = await loadInput(id);
+    const result = await runAnalysis(input, event => {
+      progressWrites = progressWrites.then(() => updateJob(id, job => {
+        job.progress.push(event.message);
+        job.partial.push(...(event.partial || []));
+      }));
+    });
+    await progressWrites;
+
+    await updateJob(id, job => {
+      job.finishedAt = new Date().toISOString();
+      if ('error' in result) {
+        job.status = 'failed';
+        job.error = { error: result.error, code: result.code, details: result.details };
+      } else {
+        job.status = 'done';
+        job.result = result;
+      }
+    });
+    console.log(`Job ${id} finished`);
+  } catch (error) {
+    await progressWrites.catch(() => undefined);
+    console.error(`Job ${id} failed:`, error);
+    await updateJob(id, job => {
+      job.status = 'failed';
+      job.finishedAt = new Date().toISOString();
+      job.error = {
+        error: 'Failed to process the files',
+        code: classifyError(error).code,
+        details: error instanceof Error ? error.message : 'Unknown error',
+      };
+    });
+  } finally {
+    // The uploads are not needed once the job is over
+    await Promise.all((await fs.readdir(jobDir(id)).catch(() => [] as string[]))
+      .filter(name => name.startsWith('upload-'))
+      .map(name => fs.rm(dataPath('jobs', id, name), { force: true })));
+  }
+}
+
+// The worker queue: ids waiting to run, drained by up to JOB_CONCURRENCY runners
+const queue: string[] = [];
+let activeRunners = 0;
+
+function drainQueue(): void {
+  while (activeRunners < JOB_CONCURRENCY && queue.length > 0) {
+    const id = queue.shift() as string;
+    activeRunners++;
+    runJob(id)
+      .catch(error => console.error(`Unexpected error in job ${id}:`, error))
+      .finally(() => {
+        activeRunners--;
+        drainQueue();
+      });
+  }
+}
+
+function enqueue(id: string): void {
+  if (!queue.includes(id)) {
+    queue.push(id);
+  }
+  drainQueue();
+}
+
+// Persists a new job with its uploaded files and queues it
+export async function createJob(input: AnalysisInput): Promise<Job> {
+  await ensureWorkerStarted();
+
+  const id = randomUUID();
+  const job: Job = {
+    id,
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    fileNames: input.files.map(file => file.name),
+    progress: [],
+    partial: [],
+  };
+
+  await fs.mkdir(jobDir(id), { recursive: true });
+  await Promise.all(input.files.map((file, index) => fs.writeFile(uploadFile(id, index), Buffer.from(file.data))));
+  const { timeZone, window, output, format, maxMessageLength, languages, repeats, lookbackDays } = input;
+  const storedInput: JobInput = {
+    timeZone, window, output, format, maxMessageLength, languages, repeats, lookbackDays, fileNames: job.fileNames,
+  };
+  await writeJsonFile(inputFile(id), storedInput);
+  await writeJsonFile(jobFile(id), job);
+
+  console.log(`Created job ${id} for ${job.fileNames.length} files`);
+  enqueue(id);
+  return job;
+}
+
+// On first use, requeue jobs left unfinished by a previous server process and
+// delete jobs past their retention
+let workerStarted: Promise<void> | null = null;
+
+export function ensureWorkerStarted(): Promise<void> {
+  if (!workerStarted) {
+    workerStarted = (async () => {
+      const ids = await fs.readdir(dataPath('jobs')).catch(() => [] as string[]);
+      const jobs = await mapWithConcurrency(ids, 8, id => getJob(id));
+      const now = Date.now();
+
+      for (const job of jobs) {
+        if (!job) continue;
+        if (job.status === 'queued' || job.status === 'running') {
+          console.log(`Resuming job ${job.id} (${job.status})`);
+          enqueue(job.id);
+        } else if (now - new Date(job.finishedAt || job.createdAt).getTime() > JOB_RETENTION_MS) {
+          await fs.rm(jobDir(job.id), { recursive: true, force: true });
+        }
+      }
+    })().catch(error => console.error('Failed to start the job worker:', error));
+  }
+  return workerStarted;
+}
@@ -0,0 +1,32 @@
+// Languages a digest can be written in. The language drives the model's prompt,
+// the labels of the default templates, the category names and the text
+// direction on the page.
+
+export type SummaryLanguage = 'he' | 'en' | 'ar' | 'ru';
+
+export interface LanguageInfo {
+  code: SummaryLanguage;
+  label: string;       // Native name, shown on the page
+  englishName: string; // Used in the prompt
+  direction: 'rtl' | 'ltr';
+  dateLabel: string;       // "Date: 12.10.25"
+  dateRangeLabel: string;  // "Date range: 10.10.25 - 12.10.25"
+  repeatedLabel: string;   // Heading of the links that already appeared in a previous digest
+}
+
+export const DEFAULT_LANGUAGE: SummaryLanguage = 'he';
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'he', label: 'עברית', englishName: 'Hebrew', direction: 'rtl', dateLabel: 'תאריך', dateRangeLabel: 'טווח תאריכים', repeatedLabel: 'נזכר שוב' },
+  { code: 'en', label: 'English', englishName: 'English', direction: 'ltr', dateLabel: 'Date', dateRangeLabel: 'Date range', repeatedLabel: 'Mentioned again' },
+  { code: 'ar', label: 'العربية', englishName: 'Arabic', direction: 'rtl', dateLabel: 'التاريخ', dateRangeLabel: 'الفترة', repeatedLabel: 'ذُكر مجددًا' },
+  { code: 'ru', label: 'Русский', englishName: 'Russian', direction: 'ltr', dateLabel: 'Дата', dateRangeLabel: 'Период', repeatedLabel: 'Снова упоминалось' },
+];
+
+export function isSummaryLanguage(value: unknown): value is SummaryLanguage {
+  return LANGUAGES.some(({ code }) => code === value);
+}
+
+export function getLanguage(code: SummaryLanguage): LanguageInfo {
+  return LANGUAGES.find(language => language.code === code) || LANGUAGES[0];
+}
@@ -0,0 +1,41 @@
+// Markups of the line-based formats. WhatsApp is the message posted to the
+// community; the others are for cross-posting the same digest.
+
+import { LineMarkup } from './summary-markup';
+
+export const whatsappMarkup: LineMarkup = {
+  escape: text => text,
+  bold: text => `*${text}*`,
+  heading: text => `*${text}*`,
+  link: url => url,
+  bullets: ['- ', '  - ', '    • '],
+};
+
+// GitHub-flavored Markdown (also pastes cleanly into Notion)
+export const markdownMarkup: LineMarkup = {
+  escape: text => text.replace(/[\\`*_[\]<>|~#]/g, '\\$&'),
+  bold: text => `**${text}**`,
+  heading: (text, level) => `${level === 1 ? '#' : '##'} ${text}`,
+  link: url => `<${url}>`,
+  bullets: ['- ', '  - ', '    - '],
+};
+
+// Telegram's MarkdownV2 rejects a message with any of these characters unescaped
+const TELEGRAM_SPECIAL_CHARACTERS = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+export const telegramMarkup: LineMarkup = {
+  escape: text => text.replace(TELEGRAM_SPECIAL_CHARACTERS, '\\$&'),
+  bold: text => `*${text}*`,
+  heading: text => `*${text}*`,
+  link: url => url.replace(TELEGRAM_SPECIAL_CHARACTERS, '\\$&'),
+  bullets: ['• ', '    ◦ ', '        ▪ '],
+};
+
+// Slack mrkdwn only needs &, < and > escaped; links are written as <url>
+export const slackMarkup: LineMarkup = {
+  escape: text => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+  bold: text => `*${text}*`,
+  heading: text => `*${text}*`,
+  link: url => `<${url.replace(/\|/g, '%7C')}>`,
+  bullets: ['• ', '    ◦ ', '        ▪ '],
+};
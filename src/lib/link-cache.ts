@@ -0,0 +1,138 @@
+// Persistent cache of link summaries and page metadata, keyed by canonical URL.
+// A link that was summarized on a previous day is reused as-is instead of being
+// sent to the model again, which saves cost and keeps descriptions consistent.
+
+import type { PageMetadata } from './link-enrichment';
+import type { LinkWithContext } from './link-extractor';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage';
+import type { SummarizedLink } from './summary-types';
+
+// A summary produced for a link, together with the category it was placed in
+export interface CachedLinkSummary {
+  category: string;
+  link: SummarizedLink;
+  cachedAt: string;
+}
+
+interface CachedMetadata {
+  metadata: PageMetadata;
+  cachedAt: string;
+}
+
+interface LinkCacheFile {
+  version: 1;
+  summaries: Record<string, CachedLinkSummary>; // Keyed by model|promptVersion|canonicalUrl
+  metadata: Record<string, CachedMetadata>;     // Keyed by canonicalUrl
+}
+
+const CACHE_FILE = dataPath('link-cache.json');
+
+// Page metadata goes stale faster than a description of what a tool is
+const METADATA_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Keep the file bounded; the oldest entries are dropped first
+const MAX_ENTRIES = 5000;
+
+const emptyCache = (): LinkCacheFile => ({ version: 1, summaries: {}, metadata: {} });
+
+function summaryKey(canonicalUrl: string, model: string, promptVersion: string): string {
+  return `${model}|${promptVersion}|${canonicalUrl}`;
+}
+
+// Drops the oldest entries of a record beyond the size limit
+function prune<T extends { cachedAt: string }>(entries: Record<string, T>): Record<string, T> {
+  const keys = Object.keys(entries);
+  if (keys.length <= MAX_ENTRIES) {
+    return entries;
+  }
+  const newest = keys
+    .sort((a, b) => entries[b].cachedAt.localeCompare(entries[a].cachedAt))
+    .slice(0, MAX_ENTRIES);
+  return Object.fromEntries(newest.map(key => [key, entries[key]]));
+}
+
+async function readCache(): Promise<LinkCacheFile> {
+  const cache = await readJsonFile<LinkCacheFile>(CACHE_FILE, emptyCache());
+  return cache.version === 1 ? cache : emptyCache();
+}
+
+// Applies a change to the cache file. Cache failures are logged, never thrown,
+// since the summary can always be produced without the cache.
+async function updateCache(change: (cache: LinkCacheFile) => void): Promise<void> {
+  try {
+    await withFileLock(CACHE_FILE, async () => {
+      const cache = await readCache();
+      change(cache);
+      cache.summaries = prune(cache.summaries);
+      cache.metadata = prune(cache.metadata);
+      await writeJsonFile(CACHE_FILE, cache);
+    });
+  } catch (error) {
+    console.error('Failed to update link cache:', error);
+  }
+}
+
+// Looks up cached summaries for the given canonical URLs
+export async function getCachedSummaries(
+  canonicalUrls: string[],
+  model: string,
+  promptVersion: string
+): Promise<Map<string, CachedLinkSummary>> {
+  const cache = await readCache();
+  const found = new Map<string, CachedLinkSummary>();
+  for (const canonicalUrl of canonicalUrls) {
+    const entry = cache.summaries[summaryKey(canonicalUrl, model, promptVersion)];
+    if (entry) {
+      found.set(canonicalUrl, entry);
+    }
+  }
+  return found;
+}
+
+// Stores freshly generated summaries
+export async function saveSummaries(
+  entries: { canonicalUrl: string; category: string; link: SummarizedLink }[],
+  model: string,
+  promptVersion: string
+): Promise<void> {
+  if (entries.length === 0) return;
+  const cachedAt = new Date().toISOString();
+  await updateCache(cache => {
+    for (const entry of entries) {
+      cache.summaries[summaryKey(entry.canonicalUrl, model, promptVersion)] = {
+        category: entry.category,
+        link: entry.link,
+        cachedAt,
+      };
+    }
+  });
+  console.log(`Cached ${entries.length} link summaries`);
+}
+
+// Fills in page metadata from the cache for links that don't have it yet.
+// Returns the number of links that were served from the cache.
+export async function applyCachedMetadata(links: LinkWithContext[]): Promise<number> {
+  const cache = await readCache();
+  const now = Date.now();
+  let applied = 0;
+  for (const link of links) {
+    const entry = cache.metadata[link.canonicalUrl];
+    if (!link.metadata && entry && now - new Date(entry.cachedAt).getTime() < METADATA_TTL_MS) {
+      link.metadata = entry.metadata;
+      applied++;
+    }
+  }
+  return applied;
+}
+
+// Stores the page metadata of links that were fetched successfully
+export async function saveMetadata(links: LinkWithContext[]): Promise<void> {
+  const fetched = links.filter(link => link.metadata && !link.metadata.error);
+  if (fetched.length === 0) return;
+  const cachedAt = new Date().toISOString();
+  await updateCache(cache => {
+    for (const link of fetched) {
+      cache.metadata[link.canonicalUrl] = { metadata: link.metadata!, cachedAt };
+    }
+  });
+}
@@ -0,0 +1,83 @@
+// Link detection in free message text. Full http(s) URLs are always links;
+// bare "name.tld" tokens only count when the TLD is real, so file names,
+// emails, decimal numbers and dotted words are not mistaken for links.
+
+import { FILE_EXTENSION_TLDS, isKnownTld } from './tlds';
+import { trimTrailingPunctuation } from './url-canonical';
+
+// A link found in a piece of text
+export interface DetectedLink {
+  url: string;   // The link as written, without trailing punctuation
+  index: number; // Position in the original text
+}
+
+// Candidate tokens: optional scheme, dotted host, optional port and path.
+// The lookbehind keeps us from starting in the middle of a word, an email
+// address or another URL.
+const linkCandidatePattern = /(?<![\p{L}\p{N}@._\/-])(https?:\/\/)?((?:[\p{L}\p{N}](?:[\p{L}\p{N}-]{0,62}[\p{L}\p{N}])?\.)+([\p{L}\p{N}-]{2,63}))(:\d{2,5})?([\/?#][^\s<>"]*)?/giu;
+
+// WhatsApp attachment markers whose file names must not be read as links
+const attachmentMarkerPatterns: RegExp[] = [
+  /<attached:[^>]*>/gi,                        // iOS: <attached: 00000012-PHOTO-2024-03-25.jpg>
+  /[^\n]*\(file attached\)/gi,                 // Android: IMG-20240325-WA0001.jpg (file attached)
+  /[^\n]*\b(?:document|image|video|audio) omitted/gi, // iOS without media: Report.pdf • 3 pages document omitted
+];
+
+// Blanks out attachment markers, keeping every other character at its position
+function maskAttachmentMarkers(text: string): string {
+  return attachmentMarkerPatterns.reduce(
+    (masked, pattern) => masked.replace(pattern, marker => ' '.repeat(marker.length)),
+    text
+  );
+}
+
+// Decides whether a candidate token is a link
+function isLinkCandidate(match: RegExpMatchArray, text: string, end: number): boolean {
+  const [, scheme, host, tld, , path] = match;
+
+  // The local part of an email address ("first.last@example.com")
+  if (text[end] === '@') {
+    return false;
+  }
+
+  // With an explicit scheme anything with a dotted host is a link
+  if (scheme) {
+    return true;
+  }
+
+  // Bare tokens need a real, alphabetic TLD ("node.js", "v1.2" and "3.5" fail here)
+  if (!/^\p{L}+$/u.test(tld) || !isKnownTld(tld)) {
+    return false;
+  }
+
+  const hasWww = host.toLowerCase().startsWith('www.');
+  const hasPath = Boolean(path && path.length > 1);
+
+  // TLDs that double as file extensions need more evidence ("README.md" vs "www.site.md")
+  if (FILE_EXTENSION_TLDS.has(tld.toLowerCase())) {
+    return hasWww || hasPath;
+  }
+
+  // So do capitalized TLDs, which are mostly words in prose ("Hello.World")
+  if (tld !== tld.toLowerCase()) {
+    return hasWww || hasPath;
+  }
+
+  return true;
+}
+
+// Finds the links in a piece of text, in order of appearance
+export function detectLinks(text: string): DetectedLink[] {
+  const masked = maskAttachmentMarkers(text);
+  const links: DetectedLink[] = [];
+
+  for (const match of masked.matchAll(linkCandidatePattern)) {
+    const index = match.index || 0;
+    const url = trimTrailingPunctuation(match[0]);
+    if (url && isLinkCandidate(match, masked, index + match[0].length)) {
+      links.push({ url, index });
+    }
+  }
+
+  return links;
+}
@@ -0,0 +1,357 @@
+// Link enrichment: fetches each extracted link and attaches the page title,
+// description and OpenGraph data, so the summary is based on the page itself
+// and not only on the message the link was shared in.
+
+import { lookup as dnsLookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent, fetch, Response } from 'undici';
+import { mapWithConcurrency } from './concurrency';
+import { LinkWithContext, mergeDuplicateLinks } from './link-extractor';
+import { canonicalizeUrl, displayUrl, getDomain } from './url-canonical';
+
+// Metadata read from a link's page
+export interface PageMetadata {
+  finalUrl: string;     // URL after following redirects
+  status?: number;
+  title?: string;
+  description?: string; // meta description or og:description
+  siteName?: string;    // og:site_name
+  ogType?: string;      // og:type (article, video.other, website...)
+  error?: string;       // Set when the page could not be fetched or read
+}
+
+// What a fetcher returns for a page
+export interface FetchedPage {
+  finalUrl: string;
+  status: number;
+  contentType?: string;
+  body: string; // Decoded text, possibly cut at the size cap
+}
+
+export interface FetchPageOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects: number;
+}
+
+// Fetches a page. Pluggable so enrichment can run against a stub server or
+// without network at all.
+export type PageFetcher = (url: string, options: FetchPageOptions) => Promise<FetchedPage>;
+
+export interface EnrichmentOptions extends Partial<FetchPageOptions> {
+  fetcher?: PageFetcher;
+  concurrency?: number;
+  totalTimeoutMs?: number; // Links not started by then are left without metadata
+}
+
+const DEFAULT_FETCH_OPTIONS: FetchPageOptions = {
+  timeoutMs: 5000,
+  maxBytes: 512 * 1024,
+  maxRedirects: 5,
+};
+
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_TOTAL_TIMEOUT_MS = 15000;
+
+// Hosts that only redirect to another site; their targets are re-canonicalized
+const SHORTENER_HOSTS = new Set([
+  'lnkd.in', 'bit.ly', 't.co', 'tinyurl.com', 'goo.gl', 'ow.ly', 'buff.ly',
+  'rebrand.ly', 'shorturl.at', 'cutt.ly', 'tiny.cc', 'is.gd', 'rb.gy',
+]);
+
+// Addresses a shared link must never make the server request: loopback,
+// private networks, link-local (cloud metadata at 169.254.169.254), multicast
+// and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+const BLOCKED_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],  // NAT64 of an IPv4 address
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+for (const [network, prefix, family] of BLOCKED_SUBNETS) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, family);
+}
+
+// Whether an IP address is on the public internet
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped addresses (::ffff:10.0.0.1) would be a way around the IPv4 ranges
+  if (/^::ffff:/i.test(address)) {
+    return false;
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Refuses a URL the server must not request: any scheme but http(s), or an
+// IP address host that isn't allowed (by default, any non-public one).
+// Checked before the first request and every redirect; host names are
+// checked when connecting, see guardedLookup.
+function assertFetchable(url: string, isAllowedAddress: (address: string) => boolean): void {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Blocked scheme ${protocol}`);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isAllowedAddress(host)) {
+    throw new Error(`Blocked address for ${host} (${host})`);
+  }
+}
+
+// Resolves a host for the connection and refuses it unless every address is
+// allowed. The connection goes to the address checked here, so a host can't
+// pass the check and then resolve to a private address for the request.
+function guardedLookup(isAllowedAddress: (address: string) => boolean): LookupFunction {
+  return (hostname, options, callback) => {
+    dnsLookup(hostname, { all: true, verbatim: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+      const blocked = addresses.find(({ address }) => !isAllowedAddress(address));
+      if (addresses.length === 0 || blocked) {
+        callback(new Error(`Blocked address for ${hostname}${blocked ? ` (${blocked.address})` : ''}`), '');
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+// Identify ourselves like a regular browser; many sites serve no metadata to unknown agents
+const USER_AGENT = 'Mozilla/5.0 (compatible; WhatsAppLinksSummary/1.0; +https://github.com/jebnlang/whatsapp-links-summary)';
+
+// Reads a response body up to maxBytes, decoding it with the declared charset
+async function readLimitedBody(response: Response, maxBytes: number): Promise<string> {
+  const charset = response.headers.get('content-type')?.match(/charset=([^;]+)/i)?.[1]?.trim() || 'utf-8';
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done || !value) break;
+    chunks.push(value);
+    received += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const buffer = new Uint8Array(Math.min(received, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, buffer.length - offset);
+    buffer.set(part, offset);
+    offset += part.length;
+    if (offset >= buffer.length) break;
+  }
+  return decoder.decode(buffer);
+}
+
+// Creates a fetcher built on undici's fetch. Redirects are followed by hand
+// so their number can be capped and every hop is checked against
+// isAllowedAddress, and only HTML bodies are read. Host names are resolved
+// while connecting, under the same timeout as the request.
+export function createPageFetcher(isAllowedAddress: (address: string) => boolean = isPublicAddress): PageFetcher {
+  const dispatcher = new Agent({ connect: { lookup: guardedLookup(isAllowedAddress) } });
+
+  return async (url, options) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+
+    try {
+      let currentUrl = url;
+      for (let redirects = 0; ; redirects++) {
+        assertFetchable(currentUrl, isAllowedAddress);
+        const response = await fetch(currentUrl, {
+          dispatcher,
+          redirect: 'manual',
+          signal: controller.signal,
+          headers: {
+            'User-Agent': USER_AGENT,
+            'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+            'Accept-Language': 'he,en;q=0.8',
+          },
+        }).catch((error: unknown) => {
+          // fetch only says "fetch failed"; the reason (e.g. a blocked address) is the cause
+          throw error instanceof TypeError && error.cause instanceof Error ? error.cause : error;
+        });
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+          if (redirects >= options.maxRedirects) {
+            throw new Error(`Too many redirects (${options.maxRedirects})`);
+          }
+          currentUrl = new URL(location, currentUrl).toString();
+          continue;
+        }
+
+        const contentType = response.headers.get('content-type') || undefined;
+        const isHtml = !contentType || /html|xml/i.test(contentType);
+        return {
+          finalUrl: currentUrl,
+          status: response.status,
+          contentType,
+          body: isHtml ? await readLimitedBody(response, options.maxBytes) : '',
+        };
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+// The fetcher used by default: only pages on public addresses
+export const defaultPageFetcher: PageFetcher = createPageFetcher();
+
+// Decodes the HTML entities that commonly appear in titles and descriptions
+function decodeHtmlEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Collapses whitespace and decodes entities in a metadata value
+function cleanText(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const cleaned = decodeHtmlEntities(text).replace(/\s+/g, ' ').trim();
+  return cleaned || undefined;
+}
+
+// Parses the attributes of a single tag into a lower-cased map
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([a-zA-Z:_-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+// Reads title, description and OpenGraph data from an HTML document
+export function parseHtmlMetadata(html: string, finalUrl: string): PageMetadata {
+  // Metadata lives in <head>; don't scan the whole document
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd > 0 ? html.slice(0, headEnd) : html.slice(0, 100000);
+
+  const meta: Record<string, string> = {};
+  for (const match of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleMatch = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+
+  return {
+    finalUrl,
+    title: cleanText(meta['og:title']) || cleanText(titleMatch?.[1]) || cleanText(meta['twitter:title']),
+    description: cleanText(meta['og:description']) || cleanText(meta['description']) || cleanText(meta['twitter:description']),
+    siteName: cleanText(meta['og:site_name']),
+    ogType: cleanText(meta['og:type']),
+  };
+}
+
+// Fetches and parses the metadata of a single link
+export async function fetchPageMetadata(
+  url: string,
+  fetcher: PageFetcher = defaultPageFetcher,
+  options: FetchPageOptions = DEFAULT_FETCH_OPTIONS
+): Promise<PageMetadata> {
+  try {
+    const page = await fetcher(url, options);
+    const metadata = page.body ? parseHtmlMetadata(page.body, page.finalUrl) : { finalUrl: page.finalUrl };
+    return {
+      ...metadata,
+      status: page.status,
+      error: page.status >= 400 ? `HTTP ${page.status}` : undefined,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? (error.name === 'AbortError' ? 'Timeout' : error.message) : 'Unknown error';
+    return { finalUrl: url, error: message };
+  }
+}
+
+// Attaches page metadata to every link. Links behind URL shorteners take the
+// identity of their target, so the result is merged again and may be shorter.
+export async function enrichLinks(
+  links: LinkWithContext[],
+  options: EnrichmentOptions = {}
+): Promise<LinkWithContext[]> {
+  if (process.env.LINK_ENRICHMENT === 'off') {
+    console.log('Link enrichment disabled by LINK_ENRICHMENT=off');
+    return links;
+  }
+
+  const fetchOptions: FetchPageOptions = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_FETCH_OPTIONS.timeoutMs,
+    maxBytes: options.maxBytes ?? DEFAULT_FETCH_OPTIONS.maxBytes,
+    maxRedirects: options.maxRedirects ?? DEFAULT_FETCH_OPTIONS.maxRedirects,
+  };
+  const fetcher = options.fetcher || defaultPageFetcher;
+  const deadline = Date.now() + (options.totalTimeoutMs ?? DEFAULT_TOTAL_TIMEOUT_MS);
+  const startTime = Date.now();
+  let skipped = 0;
+
+  // Links that already carry metadata (e.g. from the cache) are not fetched again
+  const pending = links.filter(link => !link.metadata);
+
+  await mapWithConcurrency(pending, options.concurrency ?? DEFAULT_CONCURRENCY, async link => {
+    if (Date.now() > deadline) {
+      skipped++;
+      return;
+    }
+
+    link.metadata = await fetchPageMetadata(link.url, fetcher, fetchOptions);
+
+    // Resolve shortened links (lnkd.in, bit.ly...) to the page they point to
+    if (SHORTENER_HOSTS.has(getDomain(link.url)) && !link.metadata.error) {
+      const resolved = canonicalizeUrl(link.metadata.finalUrl);
+      if (resolved !== link.canonicalUrl) {
+        console.log(`Resolved short link ${link.url} -> ${resolved}`);
+        link.canonicalUrl = resolved;
+        link.url = displayUrl(link.metadata.finalUrl);
+      }
+    }
+  });
+
+  const failed = pending.filter(link => link.metadata?.error).length;
+  console.log(`Enriched ${pending.length - skipped}/${links.length} links in ${Date.now() - startTime}ms (${failed} failed, ${skipped} skipped after deadline)`);
+
+  return mergeDuplicateLinks(links);
+}
@@ -0,0 +1,138 @@
+import type { ChatMessage } from './chat-parser';
+import { DetectedLink, detectLinks } from './link-detector';
+import type { PageMetadata } from './link-enrichment';
+import { canonicalizeUrl, displayUrl } from './url-canonical';
+
+// One place a link was shared
+export interface LinkOccurrence {
+  originalUrl: string; // The URL exactly as it was written in the message
+  messageContext: string;
+  fullMessageText?: string;
+  date: Date;
+  groupName?: string;
+  sender?: string;
+}
+
+// A link together with the message it was shared in. After merging, the
+// top-level fields describe the most recent share and `occurrences` holds all.
+export interface LinkWithContext {
+  url: string;          // Display URL built from the canonical form
+  canonicalUrl: string; // Identity used for deduplication
+  messageContext: string; // Snippet around the link for AI prompt
+  fullMessageText?: string; // Full message text (cleaned) for final display
+  date: Date;
+  groupName?: string;
+  sender?: string;
+  occurrences: LinkOccurrence[];
+  metadata?: PageMetadata; // Set by the enrichment stage
+}
+
+// Debugging helper to log link extraction process
+function logLinkExtraction(lineNumber: number, links: DetectedLink[]): void {
+  if (links.length > 0) {
+    const joined = links.map(l => l.url).join(', ');
+    console.log(`Found ${links.length} links at line ${lineNumber}:`,
+      joined.substring(0, 100) + (joined.length > 100 ? '...' : ''));
+  }
+}
+
+// Extract links from a single message with context
+export function extractLinksWithContext(message: ChatMessage): LinkWithContext[] {
+  const extractedLinks: LinkWithContext[] = [];
+  const { body } = message;
+
+  // System events never carry links worth summarizing
+  if (!body || message.isSystem) {
+    return extractedLinks;
+  }
+
+  const createLink = (originalUrl: string, messageContext: string): LinkWithContext => {
+    const canonicalUrl = canonicalizeUrl(originalUrl);
+    const occurrence: LinkOccurrence = {
+      originalUrl,
+      messageContext,
+      fullMessageText: body,
+      date: message.timestamp,
+      groupName: message.groupName,
+      sender: message.sender,
+    };
+    return {
+      url: displayUrl(originalUrl),
+      canonicalUrl,
+      messageContext,
+      fullMessageText: body,
+      date: message.timestamp,
+      groupName: message.groupName,
+      sender: message.sender,
+      occurrences: [occurrence],
+    };
+  };
+
+  // Use the full message to find links
+  const linksInMessage = detectLinks(body);
+  logLinkExtraction(message.lineNumber, linksInMessage);
+
+  linksInMessage.forEach(link => {
+    // Calculate snippet context based on link position in the full message
+    const startContext = Math.max(0, link.index - 100);
+    const endContext = Math.min(body.length, link.index + link.url.length + 100);
+
+    // Store the snippet for AI prompt
+    extractedLinks.push(createLink(link.url, body.substring(startContext, endContext).trim()));
+  });
+
+  return extractedLinks;
+}
+
+// Extract the links shared across a stream of parsed messages
+export function extractLinksFromMessages(messages: ChatMessage[]): LinkWithContext[] {
+  return messages.flatMap(message => extractLinksWithContext(message));
+}
+
+// Merges links that share a canonical URL (e.g. the same tool posted in several
+// groups) into one entry that keeps every occurrence. The result is ordered by
+// the most recent share, newest first.
+export function mergeDuplicateLinks(links: LinkWithContext[]): LinkWithContext[] {
+  const merged = new Map<string, LinkWithContext>();
+
+  for (const link of links) {
+    const existing = merged.get(link.canonicalUrl);
+    if (!existing) {
+      merged.set(link.canonicalUrl, { ...link, occurrences: [...link.occurrences] });
+      continue;
+    }
+
+    existing.occurrences.push(...link.occurrences);
+
+    // Keep the top-level fields pointing at the most recent share
+    if (link.date > existing.date) {
+      existing.date = link.date;
+      existing.messageContext = link.messageContext;
+      existing.fullMessageText = link.fullMessageText;
+      existing.groupName = link.groupName;
+      existing.sender = link.sender;
+    }
+  }
+
+  const result = Array.from(merged.values());
+  result.forEach(link => link.occurrences.sort((a, b) => b.date.getTime() - a.date.getTime()));
+  result.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  console.log(`Merged ${links.length} links into ${result.length} unique links`);
+  return result;
+}
+
+// Distinct values of an occurrence field, in order of appearance
+function distinct(values: (string | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+}
+
+// All groups a link was shared in
+export function getLinkGroups(link: LinkWithContext): string[] {
+  return distinct(link.occurrences.map(occurrence => occurrence.groupName));
+}
+
+// Everyone who shared a link
+export function getLinkSenders(link: LinkWithContext): string[] {
+  return distinct(link.occurrences.map(occurrence => occurrence.sender));
+}
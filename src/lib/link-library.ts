@@ -0,0 +1,268 @@
+// Library of every link the app has summarized, across all processed exports,
+// kept in DATA_DIR/library.json and keyed by canonical URL. Each run adds its
+// links with the latest description, category and page metadata, and merges
+// their shares (group, sender, date, message) with the ones seen before. The
+// library is searched by text and filtered by group, category, domain, sender
+// and date.
+
+import type { SummaryLanguage } from './languages';
+import type { PageMetadata } from './link-enrichment';
+import type { LinkWithContext } from './link-extractor';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './storage';
+import type { StructuredCategory, StructuredLink } from './structured-summary';
+import { categoryName, TAXONOMY } from './taxonomy';
+
+// One time the link was shared
+export interface LibraryShare {
+  date: string;
+  groupName?: string;
+  sender?: string;
+  message: string; // The message it was shared in, cut
+}
+
+export interface LibraryLink {
+  url: string;
+  canonicalUrl: string;
+  domain: string;
+  name: string;
+  type: string;
+  description: string;
+  keyPoints: string[];
+  category: string; // Taxonomy id
+  language: SummaryLanguage; // Of the description
+  metadata?: PageMetadata;
+  shares: LibraryShare[]; // Newest first
+  groups: string[];
+  senders: string[];
+  firstSharedAt: string;
+  lastSharedAt: string;
+  historyIds: string[]; // Runs the link was summarized in, newest first
+  updatedAt: string;
+}
+
+interface LibraryFile {
+  version: 1;
+  links: Record<string, LibraryLink>; // Keyed by canonical URL
+}
+
+// Query of GET /api/links; every filter is optional
+export interface LibraryQuery {
+  text?: string;
+  group?: string;
+  category?: string;
+  domain?: string;
+  sender?: string;
+  start?: Date | null; // Shares from this time
+  end?: Date | null;   // Shares until this time
+  limit?: number;
+  offset?: number;
+}
+
+export interface LibrarySearchResult {
+  total: number; // Matches before limit and offset
+  links: LibraryLink[];
+  // Values to filter by, over the whole library
+  filters: {
+    groups: string[];
+    categories: { id: string; name: string }[];
+    domains: string[];
+    senders: string[];
+  };
+}
+
+const LIBRARY_FILE = dataPath('library.json');
+
+// Long messages are cut; the start is enough to recognize and search them
+const MAX_MESSAGE_LENGTH = 300;
+
+// A link shared every day keeps only its latest shares
+const MAX_SHARES = 100;
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 200;
+
+const emptyLibrary = (): LibraryFile => ({ version: 1, links: {} });
+
+async function readLibrary(): Promise<LibraryFile> {
+  const library = await readJsonFile<LibraryFile>(LIBRARY_FILE, emptyLibrary());
+  return library.version === 1 ? library : emptyLibrary();
+}
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+const unique = (values: (string | undefined)[]) => Array.from(new Set(values.filter((value): value is string => !!value)));
+
+// Merges shares seen before with new ones; a share is the same date, group and sender
+function mergeShares(existing: LibraryShare[], added: LibraryShare[]): LibraryShare[] {
+  const shares = new Map<string, LibraryShare>();
+  for (const share of [...added, ...existing]) {
+    const key = `${share.date}|${share.groupName || ''}|${share.sender || ''}`;
+    if (!shares.has(key)) {
+      shares.set(key, share);
+    }
+  }
+  return [...shares.values()].sort((a, b) => b.date.localeCompare(a.date)).slice(0, MAX_SHARES);
+}
+
+// Updates a library entry from its shares; the first and last share dates and
+// the group and sender lists follow them
+function withShares(link: Omit<LibraryLink, 'groups' | 'senders' | 'firstSharedAt' | 'lastSharedAt'>): LibraryLink {
+  return {
+    ...link,
+    groups: unique(link.shares.map(share => share.groupName)),
+    senders: unique(link.shares.map(share => share.sender)),
+    firstSharedAt: link.shares[link.shares.length - 1].date,
+    lastSharedAt: link.shares[0].date,
+  };
+}
+
+const structuredShares = (link: StructuredLink): LibraryShare[] => link.occurrences.map(occurrence => ({
+  date: occurrence.date,
+  groupName: occurrence.groupName,
+  sender: occurrence.sender,
+  message: occurrence.messageContext.substring(0, MAX_MESSAGE_LENGTH),
+}));
+
+const extractedShares = (link: LinkWithContext): LibraryShare[] => link.occurrences.map(occurrence => ({
+  date: occurrence.date.toISOString(),
+  groupName: occurrence.groupName,
+  sender: occurrence.sender,
+  message: occurrence.messageContext.substring(0, MAX_MESSAGE_LENGTH),
+}));
+
+// Adds a run's summarized links to the library. Links that weren't summarized
+// again (already shared in a recent digest) only add their new shares to the
+// entry they already have. A failure is logged and doesn't fail the analysis.
+export async function addToLibrary(
+  categories: StructuredCategory[],
+  language: SummaryLanguage,
+  sharedAgain: LinkWithContext[] = [],
+  historyId?: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  try {
+    await withFileLock(LIBRARY_FILE, async () => {
+      const library = await readLibrary();
+
+      for (const category of categories) {
+        for (const link of category.links) {
+          const existing = library.links[link.canonicalUrl];
+          library.links[link.canonicalUrl] = withShares({
+            url: link.url,
+            canonicalUrl: link.canonicalUrl,
+            domain: domainOf(link.url),
+            name: link.name,
+            type: link.type,
+            description: link.description,
+            keyPoints: link.keyPoints,
+            category: category.id,
+            language,
+            metadata: link.metadata && !link.metadata.error ? link.metadata : existing?.metadata,
+            shares: mergeShares(existing?.shares || [], structuredShares(link)),
+            historyIds: historyId ? unique([historyId, ...(existing?.historyIds || [])]) : existing?.historyIds || [],
+            updatedAt: now,
+          });
+        }
+      }
+
+      for (const link of sharedAgain) {
+        const existing = library.links[link.canonicalUrl];
+        if (existing) {
+          library.links[link.canonicalUrl] = withShares({
+            ...existing,
+            shares: mergeShares(existing.shares, extractedShares(link)),
+            updatedAt: now,
+          });
+        }
+      }
+
+      await writeJsonFile(LIBRARY_FILE, library);
+      console.log(`Link library: ${Object.keys(library.links).length} links`);
+    });
+  } catch (error) {
+    console.error('Failed to update the link library:', error);
+  }
+}
+
+// Lowercased words of the search text
+const searchTerms = (text: string) => text.toLowerCase().split(/\s+/).filter(Boolean);
+
+// How well a link matches every search term: 0 when a term is missing,
+// higher when the terms are in the name or description than in the messages
+function relevance(link: LibraryLink, terms: string[]): number {
+  const weighted: [string, number][] = [
+    [`${link.name} ${link.domain}`, 3],
+    [`${link.description} ${link.type} ${link.keyPoints.join(' ')} ${categoryName(link.category, link.language)}`, 2],
+    [[
+      link.url,
+      link.metadata?.title,
+      link.metadata?.description,
+      link.metadata?.siteName,
+      ...link.groups,
+      ...link.senders,
+      ...link.shares.map(share => share.message),
+    ].join(' '), 1],
+  ];
+  const fields = weighted.map(([text, weight]): [string, number] => [text.toLowerCase(), weight]);
+
+  let score = 0;
+  for (const term of terms) {
+    const termScore = Math.max(0, ...fields.filter(([text]) => text.includes(term)).map(([, weight]) => weight));
+    if (termScore === 0) {
+      return 0;
+    }
+    score += termScore;
+  }
+  return score;
+}
+
+// Whether one share of the link matches the group, sender and date filters together
+function hasMatchingShare(link: LibraryLink, query: LibraryQuery): boolean {
+  return link.shares.some(share => {
+    const date = new Date(share.date);
+    return (!query.group || share.groupName === query.group)
+      && (!query.sender || share.sender === query.sender)
+      && (!query.start || date >= query.start)
+      && (!query.end || date <= query.end);
+  });
+}
+
+// Searches the library. Results are ordered by relevance to the text, then
+// by the latest share.
+export async function searchLibrary(query: LibraryQuery): Promise<LibrarySearchResult> {
+  const links = Object.values((await readLibrary()).links);
+  const terms = searchTerms(query.text || '');
+
+  const matches = links
+    .filter(link => (!query.category || link.category === query.category)
+      && (!query.domain || link.domain === query.domain || link.domain.endsWith(`.${query.domain}`))
+      && hasMatchingShare(link, query))
+    .map(link => ({ link, score: terms.length > 0 ? relevance(link, terms) : 1 }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.link.lastSharedAt.localeCompare(a.link.lastSharedAt))
+    .map(({ link }) => link);
+
+  const limit = Math.min(Math.max(query.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const offset = Math.max(query.offset || 0, 0);
+  console.log(`Library search "${query.text || ''}": ${matches.length}/${links.length} links`);
+
+  const sorted = (values: string[]) => values.sort((a, b) => a.localeCompare(b));
+  return {
+    total: matches.length,
+    links: matches.slice(offset, offset + limit),
+    filters: {
+      groups: sorted(unique(links.flatMap(link => link.groups))),
+      categories: TAXONOMY
+        .filter(category => links.some(link => link.category === category.id))
+        .map(category => ({ id: category.id, name: categoryName(category.id, 'he') })),
+      domains: sorted(unique(links.map(link => link.domain))),
+      senders: sorted(unique(links.flatMap(link => link.senders))),
+    },
+  };
+}
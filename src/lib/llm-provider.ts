@@ -0,0 +1,101 @@
+// The layer every model call goes through. A provider turns a chat request into
+// a reply; which one is used is chosen by environment variables:
+//   LLM_PROVIDER  openai | openai-compatible | heuristic (default: openai when
+//                 OPENAI_API_KEY is set, heuristic otherwise)
+//   LLM_MODEL     model name (default: gpt-4o-mini-2024-07-18 for OpenAI)
+//   LLM_BASE_URL  server of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+//   LLM_API_KEY   key for that server, if it needs one
+
+import type { SummaryLanguage } from './languages';
+import type { LinkWithContext } from './link-extractor';
+import { heuristicProvider } from './heuristic-provider';
+import { createOpenAIProvider, describeApiKey } from './openai-provider';
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'heuristic';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  jsonSchema?: { name: string; schema: Record<string, unknown> }; // Structured output, when wanted
+  temperature?: number;
+  maxTokens?: number;
+  links?: LinkWithContext[]; // The links the request is about, for providers that don't read prompts
+  language?: SummaryLanguage; // The language they are described in, for the same providers
+}
+
+export interface ChatResponse {
+  content: string | null;
+  refusal?: string | null;
+  totalTokens?: number;
+  promptTokens?: number;     // Billed input tokens, when the provider reports them
+  completionTokens?: number;
+}
+
+export interface LlmProvider {
+  name: ProviderName;
+  model: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+// Errors thrown by providers; the fields follow the OpenAI SDK's errors
+export interface LlmError extends Error {
+  status?: number;
+  type?: string;
+  code?: string;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini-2024-07-18';
+
+function createProvider(): LlmProvider {
+  const requested = process.env.LLM_PROVIDER as ProviderName | undefined;
+  const keyInfo = describeApiKey(process.env.OPENAI_API_KEY);
+
+  if (requested === 'heuristic') {
+    return heuristicProvider;
+  }
+
+  if (requested === 'openai-compatible') {
+    if (!process.env.LLM_BASE_URL) {
+      console.error('LLM_PROVIDER=openai-compatible needs LLM_BASE_URL; falling back to the heuristic provider');
+      return heuristicProvider;
+    }
+    return createOpenAIProvider({
+      name: 'openai-compatible',
+      baseURL: process.env.LLM_BASE_URL,
+      // Local servers usually ignore the key, but the SDK insists on one
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+      model: process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+    });
+  }
+
+  if (requested && requested !== 'openai') {
+    console.error(`Unknown LLM_PROVIDER "${requested}", using the default provider`);
+  }
+
+  console.log(`API Key: ${keyInfo.masked} (Type: ${keyInfo.type}, Length: ${keyInfo.length}, Valid format: ${keyInfo.valid})`);
+  if (!keyInfo.valid) {
+    // Without a usable key the summary is still produced, just without a model
+    console.error('Invalid or missing OpenAI API key; using the heuristic provider');
+    return heuristicProvider;
+  }
+  return createOpenAIProvider({
+    name: 'openai',
+    apiKey: process.env.OPENAI_API_KEY as string,
+    model: process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+  });
+}
+
+let provider: LlmProvider | null = null;
+
+// The configured provider, created on first use
+export function getProvider(): LlmProvider {
+  if (!provider) {
+    provider = createProvider();
+    console.log(`LLM provider: ${provider.name} (model: ${provider.model})`);
+  }
+  return provider;
+}
@@ -0,0 +1,61 @@
+// Estimated cost of the model requests of a run. Prices are in USD per million
+// tokens; LLM_PRICE_INPUT and LLM_PRICE_OUTPUT override them, e.g. for a model
+// that is not listed or a self-hosted server with its own costs.
+
+import type { LlmProvider } from './llm-provider';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Matched by prefix, so dated snapshots (gpt-4o-mini-2024-07-18) get their model's price.
+// Longer names come first so gpt-4o-mini isn't priced as gpt-4o.
+const MODEL_PRICES: [string, ModelPrice][] = [
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+];
+
+function configuredPrice(): ModelPrice | undefined {
+  const input = parseFloat(process.env.LLM_PRICE_INPUT || '');
+  const output = parseFloat(process.env.LLM_PRICE_OUTPUT || '');
+  return isNaN(input) || isNaN(output) ? undefined : { input, output };
+}
+
+// Undefined when the model's price is unknown
+export function estimateCost(provider: Pick<LlmProvider, 'name' | 'model'>, usage: TokenUsage): number | undefined {
+  if (provider.name === 'heuristic') {
+    return 0;
+  }
+  const price = configuredPrice() || MODEL_PRICES.find(([prefix]) => provider.model.startsWith(prefix))?.[1];
+  if (!price) {
+    return undefined;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+// Adds up the usage and cost of several runs; the cost is unknown if any part of it is
+export function sumUsage(items: { usage: TokenUsage; costUsd?: number }[]): { usage: TokenUsage; costUsd?: number } {
+  return {
+    usage: {
+      promptTokens: items.reduce((total, item) => total + item.usage.promptTokens, 0),
+      completionTokens: items.reduce((total, item) => total + item.usage.completionTokens, 0),
+    },
+    costUsd: items.some(item => item.costUsd === undefined)
+      ? undefined
+      : items.reduce((total, item) => total + (item.costUsd || 0), 0),
+  };
+}
+
+// For display: "$0.0123", or a note when the model has no known price
+export function formatCost(costUsd?: number): string {
+  return costUsd === undefined ? 'עלות לא ידועה' : `$${costUsd.toFixed(4)}`;
+}
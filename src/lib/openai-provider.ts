@@ -0,0 +1,60 @@
+// Provider for OpenAI and for any server that speaks the same API (Ollama,
+// llama.cpp, vLLM...), selected by the base URL.
+
+import OpenAI from 'openai';
+import type { ChatRequest, ChatResponse, LlmProvider, ProviderName } from './llm-provider';
+
+export interface OpenAIProviderOptions {
+  name: Extract<ProviderName, 'openai' | 'openai-compatible'>;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+// Safe description of an API key for logs and the status endpoint
+export function describeApiKey(apiKey: string | undefined) {
+  const key = apiKey || '';
+  const length = key.length;
+  return {
+    available: length > 0,
+    masked: length > 8 ? `${key.substring(0, 4)}...${key.substring(length - 4)}` : '(not set)',
+    type: key.startsWith('sk-proj-') ? 'Project' : key.startsWith('sk-') ? 'Standard' : 'Unknown',
+    length,
+    valid: key.startsWith('sk-') && length > 20,
+  };
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions): LlmProvider {
+  // Longer timeout for the paid Vercel plan
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    timeout: 50000, // 50 seconds timeout
+    maxRetries: 2,
+  });
+
+  return {
+    name: options.name,
+    model: options.model,
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages: request.messages,
+        response_format: request.jsonSchema
+          ? { type: 'json_schema', json_schema: { ...request.jsonSchema, strict: true } }
+          : undefined,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      });
+
+      const message = response.choices[0]?.message;
+      return {
+        content: message?.content ?? null,
+        refusal: message?.refusal,
+        totalTokens: response.usage?.total_tokens,
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
+      };
+    },
+  };
+}
@@ -0,0 +1,440 @@
+// The whole analysis, from uploaded chat exports to the rendered summary:
+// parse files -> filter by time window -> extract and merge links -> enrich
+// -> summarize -> render. Each step reports progress through an optional
+// listener, so callers can stream it to the page.
+
+import JSZip from 'jszip';
+import { ChatMessage, extractGroupName, parseChatExport } from './chat-parser';
+import type { ErrorCode } from './errors';
+import { archiveRun, HistoryDigest } from './history';
+import { DEFAULT_LANGUAGE, getLanguage, isSummaryLanguage, SummaryLanguage } from './languages';
+import { applyCachedMetadata, saveMetadata } from './link-cache';
+import { addToLibrary } from './link-library';
+import { enrichLinks } from './link-enrichment';
+import { extractLinksFromMessages, getLinkGroups, mergeDuplicateLinks } from './link-extractor';
+import { DEFAULT_LOOKBACK_DAYS, DEFAULT_REPEAT_MODE, findPreviousLinks, isRepeatMode, PreviousLink, repeatedLinks, RepeatMode } from './repeats';
+import { emptySummaryStats, summarizeLinks, SummaryStats } from './summarizer';
+import { buildStructuredSummary, findSkippedLinks, RunStats, structureCategories, StructuredSummary } from './structured-summary';
+import { DEFAULT_SUMMARY_FORMAT, isSummaryFormat, SummaryFormat } from './summary-formats';
+import { renderSummary, renderSummaryParts } from './summary-renderer';
+import { getTemplates } from './summary-templates';
+import { resolveTimeWindow, ResolvedTimeWindow, TimeWindowParams } from './time-window';
+import { formatDateForSummary, isSameDayInZone, resolveTimeZone } from './timezone';
+
+// A file as uploaded, already read into memory
+export interface UploadedFile {
+  name: string;
+  data: ArrayBuffer;
+}
+
+// text: the WhatsApp message only; json: also the structured result
+export type OutputFormat = 'text' | 'json';
+
+export interface AnalysisInput {
+  files: UploadedFile[];
+  timeZone?: string | null;
+  window: TimeWindowParams;
+  output?: OutputFormat;
+  format?: SummaryFormat; // Markup of the summary text
+  maxMessageLength?: number; // When set, the summary is also split into messages of this length
+  languages?: SummaryLanguage[]; // One digest per language, the first is the main one (default: Hebrew)
+  repeats?: RepeatMode; // Links already in a recent digest (default: mention them again briefly)
+  lookbackDays?: number; // How far back previous digests count (default: REPEAT_LOOKBACK_DAYS)
+}
+
+export type ProgressStage = 'files' | 'messages' | 'links' | 'enrichment' | 'summary' | 'render';
+
+// A link summarized so far, shown on the page before the whole summary is ready
+export interface PartialLink {
+  category: string;
+  name: string;
+  url: string;
+}
+
+export interface ProgressEvent {
+  stage: ProgressStage;
+  message: string; // Hebrew line for the page's progress log
+  partial?: PartialLink[];
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// The summary in one language
+export interface LanguageDigest {
+  language: SummaryLanguage;
+  direction: 'rtl' | 'ltr';
+  summary: string;
+  parts?: string[]; // The summary split into numbered messages, when asked for
+  stats?: SummaryStats;
+  structured?: StructuredSummary; // Only for output=json
+}
+
+// The main digest's fields, plus every digest when several languages were asked for
+export interface AnalysisResult extends LanguageDigest {
+  format: SummaryFormat;
+  window: ResolvedTimeWindow;
+  dates?: { from: string; to: string }; // The summary's formatted date range, to render it again after review
+  historyId?: string; // The run in the history archive
+  message?: string; // Set when there was nothing to summarize
+  digests?: LanguageDigest[];
+}
+
+// Problems with the input itself; failures while summarizing are thrown
+export interface AnalysisFailure {
+  error: string;
+  code: ErrorCode;
+  status: number;
+  details?: unknown;
+}
+
+// Shorter messages would split the summary in the middle of most links
+export const MIN_MESSAGE_LENGTH = 500;
+
+// Helper function to log execution time
+function logTime(label: string, startTime: number) {
+  const elapsed = Date.now() - startTime;
+  console.log(`${label}: ${elapsed}ms`);
+  return elapsed;
+}
+
+// Helper to check if a date should be skipped based on filters
+function shouldSkipDate(messageDate: Date, startDate: Date | null, endDate: Date | null): boolean {
+  if (startDate && messageDate < startDate) {
+    // Skip messages before the start date
+    return true;
+  }
+
+  if (endDate && messageDate > endDate) {
+    // Skip messages after the end date
+    return true;
+  }
+
+  return false;
+}
+
+// Parses one uploaded file (a zip of chat exports or a single .txt) into messages
+async function parseUploadedFile(file: UploadedFile, timeZone: string): Promise<ChatMessage[]> {
+  const groupName = extractGroupName(file.name);
+  console.log(`Processing file: ${file.name} (Group: ${groupName || 'unknown'})`);
+
+  // Handle zip files (extract and process each .txt file)
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    console.log(`Processing ZIP file: ${file.name}`);
+    const zip = await JSZip.loadAsync(file.data);
+    const messages: ChatMessage[] = [];
+
+    const zipFilesPromises: Promise<void>[] = [];
+    zip.forEach((relativePath, zipEntry) => {
+      // Only process text files from the zip
+      if (!zipEntry.dir && relativePath.toLowerCase().endsWith('.txt')) {
+        const promise = zipEntry.async('string').then(content => {
+          console.log(`Processing ZIP entry: ${relativePath}`);
+          const chatFileGroupName = extractGroupName(relativePath) || groupName;
+          messages.push(...parseChatExport(content, { fileName: relativePath, groupName: chatFileGroupName, timeZone }));
+        });
+        zipFilesPromises.push(promise);
+      }
+    });
+
+    await Promise.all(zipFilesPromises);
+    console.log(`Completed processing of all entries in ZIP file: ${file.name}`);
+    return messages;
+  }
+
+  // Handle regular text files
+  const fileContent = new TextDecoder('utf-8').decode(file.data);
+  return parseChatExport(fileContent, { fileName: file.name, groupName, timeZone });
+}
+
+// Reads the uploaded files, the time window fields and the output options of the form
+export async function readAnalysisInput(formData: FormData): Promise<AnalysisInput> {
+  const files = formData.getAll('files') as File[];
+  console.log(`Files submitted: ${files.length}`);
+  const format = formData.get('format');
+  const maxMessageLength = parseInt(formData.get('maxMessageLength') as string || '', 10);
+  // Languages may be sent as repeated fields or comma separated
+  const languages = formData.getAll('language')
+    .flatMap(value => String(value).split(','))
+    .map(value => value.trim())
+    .filter(isSummaryLanguage);
+  const repeats = formData.get('repeats');
+  const lookbackDays = parseInt(formData.get('lookbackDays') as string || '', 10);
+
+  return {
+    output: formData.get('output') === 'json' ? 'json' : 'text',
+    format: isSummaryFormat(format) ? format : DEFAULT_SUMMARY_FORMAT,
+    maxMessageLength: maxMessageLength > 0 ? Math.max(maxMessageLength, MIN_MESSAGE_LENGTH) : undefined,
+    languages: languages.length > 0 ? Array.from(new Set(languages)) : [DEFAULT_LANGUAGE],
+    repeats: isRepeatMode(repeats) ? repeats : DEFAULT_REPEAT_MODE,
+    lookbackDays: lookbackDays >= 0 ? lookbackDays : undefined,
+    files: await Promise.all(files.map(async file => ({ name: file.name, data: await file.arrayBuffer() }))),
+    timeZone: formData.get('timezone') as string | null,
+    window: {
+      window: formData.get('window') as string | null,
+      startDate: formData.get('startDate') as string | null,
+      endDate: formData.get('endDate') as string | null,
+      from: formData.get('from') as string | null,
+      to: formData.get('to') as string | null,
+      since: formData.get('since') as string | null,
+    },
+  };
+}
+
+// Runs the analysis. Returns a failure for bad input (no files, invalid window,
+// unreadable file); errors while summarizing are thrown to the caller.
+export async function runAnalysis(
+  input: AnalysisInput,
+  onProgress: ProgressListener = () => undefined
+): Promise<AnalysisResult | AnalysisFailure> {
+  const startTime = Date.now();
+
+  // Timezone of the community manager; export times and day boundaries are read in it
+  const timeZone = resolveTimeZone(input.timeZone);
+  const format = input.format || DEFAULT_SUMMARY_FORMAT;
+  const languages = input.languages && input.languages.length > 0 ? input.languages : [DEFAULT_LANGUAGE];
+
+  // Resolve the time window: a rolling preset or the whole-day start/end dates
+  const resolvedWindow = resolveTimeWindow(input.window, timeZone);
+  if ('error' in resolvedWindow) {
+    console.error('Invalid time window:', resolvedWindow.error);
+    return { error: 'Invalid time window', code: 'INVALID_TIME_WINDOW', status: 400, details: resolvedWindow.error };
+  }
+
+  const { start: startDate, end: endDate } = resolvedWindow;
+  console.log(`Time window (${resolvedWindow.kind}, ${timeZone}): ${startDate?.toISOString() || 'none'} to ${endDate?.toISOString() || 'none'}`);
+
+  if (input.files.length === 0) {
+    return { error: 'No files uploaded', code: 'NO_FILES', status: 400 };
+  }
+
+  // Parse each file into a stream of chat messages
+  const allMessages: ChatMessage[] = [];
+  for (const [index, file] of input.files.entries()) {
+    try {
+      const messages = await parseUploadedFile(file, timeZone);
+      allMessages.push(...messages);
+      onProgress({ stage: 'files', message: `קובץ ${index + 1}/${input.files.length} נקרא: ${file.name} (${messages.length} הודעות)` });
+    } catch (error) {
+      console.error(`Error processing file ${file.name}:`, error);
+      return {
+        error: `Error processing file: ${file.name}`,
+        code: 'FILE_PARSE_ERROR',
+        status: 500,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  logTime(`Total processing time for ${input.files.length} files`, startTime);
+
+  // Apply the date filter and pull the links out of the remaining messages
+  const messagesInRange = allMessages.filter(message => !shouldSkipDate(message.timestamp, startDate, endDate));
+  console.log(`Messages in date range: ${messagesInRange.length}/${allMessages.length}`);
+  onProgress({ stage: 'messages', message: `נסרקו ${allMessages.length} הודעות, ${messagesInRange.length} מהן בטווח הזמן` });
+  const extractedLinks = extractLinksFromMessages(messagesInRange);
+
+  // Merge copies of the same link shared in several groups or messages (sorted newest first)
+  let allLinksWithContext = mergeDuplicateLinks(extractedLinks);
+  const uniqueLinks = allLinksWithContext.length;
+
+  // For the structured output: what was left out, and counts for the whole run
+  const wantsStructured = input.output === 'json';
+  const skippedLinks = wantsStructured
+    ? findSkippedLinks(
+      allMessages,
+      message => !shouldSkipDate(message.timestamp, startDate, endDate),
+      new Set(allLinksWithContext.map(link => link.canonicalUrl))
+    )
+    : [];
+  const runStats = (): RunStats => ({
+    files: input.files.length,
+    messagesScanned: allMessages.length,
+    messagesInRange: messagesInRange.length,
+    linkShares: extractedLinks.length,
+    uniqueLinks,
+    skippedLinks: skippedLinks.length,
+    timeZone,
+    durationMs: Date.now() - startTime,
+  });
+
+  // Runs with nothing to summarize are archived too, with an empty digest and the reason
+  const archiveEmptyRun = (summary: string, message: string, dates: { from: string; to: string }) => archiveRun({
+    fileNames: input.files.map(file => file.name),
+    timeZone,
+    window: resolvedWindow,
+    dates,
+    format,
+    run: runStats(),
+    digests: [{
+      language: languages[0],
+      direction: getLanguage(languages[0]).direction,
+      summary,
+      stats: emptySummaryStats(),
+      categories: [],
+    }],
+    message,
+  });
+
+  if (allLinksWithContext.length === 0) {
+    onProgress({ stage: 'links', message: 'לא נמצאו לינקים בטווח הזמן' });
+    // Nothing was shared, so the dates are those of the requested window
+    const now = new Date();
+    const windowDates = {
+      from: formatDateForSummary(startDate || endDate || now, timeZone),
+      to: formatDateForSummary(endDate || now, timeZone),
+    };
+    const summary = 'לא נמצאו לינקים בתקופה המבוקשת';
+    const message = 'No links found in the specified files or date range';
+    const entry = await archiveEmptyRun(summary, message, windowDates);
+    return {
+      summary,
+      message,
+      language: languages[0],
+      direction: getLanguage(languages[0]).direction,
+      format,
+      window: resolvedWindow,
+      historyId: entry?.id,
+      structured: wantsStructured ? buildStructuredSummary([], [], skippedLinks, runStats()) : undefined,
+    };
+  }
+
+  console.log(`Total links found: ${extractedLinks.length} (${allLinksWithContext.length} unique)`);
+  const linksPerGroup = new Map<string, number>();
+  for (const link of allLinksWithContext) {
+    for (const group of getLinkGroups(link)) {
+      linksPerGroup.set(group, (linksPerGroup.get(group) || 0) + 1);
+    }
+  }
+  const groupCounts = [...linksPerGroup].map(([group, count]) => `${group}: ${count}`).join(', ');
+  onProgress({
+    stage: 'links',
+    message: `נמצאו ${allLinksWithContext.length} לינקים ייחודיים (${extractedLinks.length} שיתופים)${groupCounts ? ` - ${groupCounts}` : ''}`
+  });
+
+  // Determine date range for the summary from every share, not just the latest of each link
+  const allShareDates = allLinksWithContext.flatMap(link => link.occurrences.map(occurrence => occurrence.date.getTime()));
+  const oldestDate = new Date(Math.min(...allShareDates));
+  const newestDate = new Date(Math.max(...allShareDates));
+
+  const dates = {
+    from: formatDateForSummary(oldestDate, timeZone),
+    to: formatDateForSummary(newestDate, timeZone),
+  };
+  if (isSameDayInZone(oldestDate, newestDate, timeZone)) {
+    // Single day summary
+    dates.from = dates.to;
+  }
+
+  // Links already in a recent digest are not summarized again: they are left
+  // out, or listed briefly with the date of the digest they were in
+  const repeatMode = input.repeats || DEFAULT_REPEAT_MODE;
+  const previousLinks = repeatMode === 'off'
+    ? new Map<string, PreviousLink>()
+    : await findPreviousLinks(allLinksWithContext, input.lookbackDays ?? DEFAULT_LOOKBACK_DAYS, timeZone);
+  const repeatedSources = allLinksWithContext.filter(link => previousLinks.has(link.canonicalUrl));
+  if (repeatedSources.length > 0) {
+    allLinksWithContext = allLinksWithContext.filter(link => !previousLinks.has(link.canonicalUrl));
+    onProgress({
+      stage: 'links',
+      message: `${repeatedSources.length} לינקים כבר הופיעו בסיכום קודם ${repeatMode === 'exclude' ? 'ולא ייכללו' : 'ויופיעו תחת "נזכר שוב"'}`
+    });
+    if (repeatMode === 'exclude' && wantsStructured) {
+      skippedLinks.push(...repeatedSources.map(link => ({
+        url: link.url,
+        canonicalUrl: link.canonicalUrl,
+        reason: 'already_shared' as const,
+        date: link.date.toISOString(),
+        groupName: link.groupName,
+        sender: link.sender,
+      })));
+    }
+  }
+
+  if (allLinksWithContext.length === 0 && repeatMode === 'exclude') {
+    const summary = 'כל הלינקים בתקופה המבוקשת כבר הופיעו בסיכום קודם';
+    const message = 'Every link was already shared in a recent digest';
+    const entry = await archiveEmptyRun(summary, message, dates);
+    await addToLibrary([], languages[0], repeatedSources, entry?.id);
+    return {
+      summary,
+      message,
+      language: languages[0],
+      direction: getLanguage(languages[0]).direction,
+      format,
+      window: resolvedWindow,
+      dates,
+      historyId: entry?.id,
+      structured: wantsStructured ? buildStructuredSummary([], [], skippedLinks, runStats()) : undefined,
+    };
+  }
+
+  // Fetch page titles, descriptions and OpenGraph data for the links (cached pages are reused)
+  onProgress({ stage: 'enrichment', message: 'טוען כותרות ותיאורים מהעמודים...' });
+  const cachedPages = await applyCachedMetadata(allLinksWithContext);
+  console.log(`Page metadata served from cache for ${cachedPages} links`);
+  allLinksWithContext = await enrichLinks(allLinksWithContext);
+  await saveMetadata(allLinksWithContext);
+  const withMetadata = allLinksWithContext.filter(link => link.metadata && !link.metadata.error).length;
+  onProgress({ stage: 'enrichment', message: `נטענו נתוני עמוד עבור ${withMetadata}/${allLinksWithContext.length} לינקים` });
+
+  // The date line given to the model
+  const dateRangeInfo = dates.from === dates.to ? `תאריך: ${dates.from}` : `טווח תאריכים: ${dates.from} - ${dates.to}`;
+  console.log(`Date range for summary: ${dateRangeInfo}`);
+
+  // One digest per language, all from the same extracted and enriched links
+  const digests: LanguageDigest[] = [];
+  const archived: HistoryDigest[] = [];
+  for (const [index, language] of languages.entries()) {
+    const { label, direction } = getLanguage(language);
+    if (languages.length > 1) {
+      onProgress({ stage: 'summary', message: `מסכם ב${label} (${index + 1}/${languages.length})` });
+    }
+
+    // Generate the summary with the model, in batches, and render it as a message
+    const { summaryJson, stats, sources } = await summarizeLinks(allLinksWithContext, dateRangeInfo, onProgress, language);
+    const categories = structureCategories(summaryJson, allLinksWithContext, sources, language);
+    const repeats = repeatMode === 'mention' ? repeatedLinks(repeatedSources, previousLinks, language) : [];
+    const renderInput = { categories, repeats, dates, language, templates: await getTemplates(language) };
+    const summary = renderSummary(renderInput, format);
+    const parts = input.maxMessageLength ? renderSummaryParts(renderInput, format, input.maxMessageLength) : undefined;
+    digests.push({
+      language,
+      direction,
+      summary,
+      parts,
+      stats,
+      structured: wantsStructured
+        ? buildStructuredSummary(categories, allLinksWithContext, skippedLinks, runStats(), repeats)
+        : undefined,
+    });
+    archived.push({ language, direction, summary, parts, stats, categories, repeats });
+    onProgress({ stage: 'render', message: `הסיכום מוכן: ${Object.keys(summaryJson).length} קטגוריות, ${stats.linksProcessed} לינקים` });
+
+    if (stats.linksProcessed < stats.linksFound) {
+      console.warn(`Only ${stats.linksProcessed}/${stats.linksFound} links made it into the ${language} summary`);
+    }
+  }
+  logTime('Total analysis time', startTime);
+
+  // Keep the run so it can be browsed, exported again and compared later
+  const entry = await archiveRun({
+    fileNames: input.files.map(file => file.name),
+    timeZone,
+    window: resolvedWindow,
+    dates,
+    format,
+    run: runStats(),
+    digests: archived,
+  });
+  // Index the links for searching across runs
+  await addToLibrary(archived[0].categories, languages[0], repeatedSources, entry?.id);
+
+  return {
+    ...digests[0],
+    format,
+    window: resolvedWindow,
+    dates,
+    historyId: entry?.id,
+    digests: digests.length > 1 ? digests : undefined,
+  };
+}
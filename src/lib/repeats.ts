@@ -0,0 +1,100 @@
+// "Already shared" detection: links that appeared in a recent digest are left
+// out of this one, or listed in a compact "mentioned again" section with the
+// date of the digest they were in. Their descriptions are taken from that
+// digest, so they are not sent to the model again.
+
+import { recentRuns } from './history';
+import type { SummaryLanguage } from './languages';
+import type { LinkWithContext } from './link-extractor';
+import { PreviousShare, RepeatedLink, structureLink, StructuredLink } from './structured-summary';
+import { formatDateForSummary } from './timezone';
+
+// mention: the "mentioned again" section; exclude: left out; off: summarized as usual
+export type RepeatMode = 'mention' | 'exclude' | 'off';
+
+export const REPEAT_MODES: RepeatMode[] = ['mention', 'exclude', 'off'];
+
+export const DEFAULT_REPEAT_MODE: RepeatMode = 'mention';
+
+// How far back (before the link's first share in this run) previous digests count
+export const DEFAULT_LOOKBACK_DAYS = Math.max(0, parseInt(process.env.REPEAT_LOOKBACK_DAYS || '', 10) || 7);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRepeatMode(value: unknown): value is RepeatMode {
+  return REPEAT_MODES.includes(value as RepeatMode);
+}
+
+// A link found in a previous digest, as described there in each of its languages
+export interface PreviousLink {
+  previous: PreviousShare;
+  descriptions: Partial<Record<SummaryLanguage, StructuredLink>>;
+}
+
+// Looks up the links in recent digests. A link counts as already shared when a
+// digest included it with a share from before this run's shares of it, within
+// the lookback; running the same window again doesn't flag anything.
+export async function findPreviousLinks(
+  links: LinkWithContext[],
+  lookbackDays: number,
+  timeZone: string
+): Promise<Map<string, PreviousLink>> {
+  const found = new Map<string, PreviousLink>();
+  if (links.length === 0 || lookbackDays <= 0) {
+    return found;
+  }
+
+  const firstShares = new Map(links.map(link => [
+    link.canonicalUrl,
+    Math.min(...link.occurrences.map(occurrence => occurrence.date.getTime())),
+  ]));
+  const earliest = Math.min(...firstShares.values());
+  const runs = await recentRuns(new Date(earliest - lookbackDays * DAY_MS));
+
+  for (const run of runs) {
+    for (const digest of run.digests) {
+      for (const link of digest.categories.flatMap(category => category.links)) {
+        const firstShare = firstShares.get(link.canonicalUrl);
+        const sharedAt = new Date(link.lastSharedAt).getTime();
+        if (firstShare === undefined || sharedAt >= firstShare || sharedAt < firstShare - lookbackDays * DAY_MS) {
+          continue;
+        }
+
+        // The most recent digest is the one to point at
+        const existing = found.get(link.canonicalUrl);
+        if (existing && existing.previous.historyId !== run.id && new Date(existing.previous.sharedAt).getTime() >= sharedAt) {
+          continue;
+        }
+        const descriptions = existing?.previous.historyId === run.id ? existing.descriptions : {};
+        found.set(link.canonicalUrl, {
+          previous: { historyId: run.id, sharedAt: link.lastSharedAt, date: formatDateForSummary(new Date(sharedAt), timeZone) },
+          descriptions: { ...descriptions, [digest.language]: link },
+        });
+      }
+    }
+  }
+
+  console.log(`Found ${found.size}/${links.length} links in digests of the last ${lookbackDays} days (${runs.length} runs checked)`);
+  return found;
+}
+
+// The repeated links of this run in a language, newest share first. The
+// description comes from the previous digest (in this language when it had
+// one), the shares from this run.
+export function repeatedLinks(
+  links: LinkWithContext[],
+  previousLinks: Map<string, PreviousLink>,
+  language: SummaryLanguage
+): RepeatedLink[] {
+  return links.flatMap(link => {
+    const found = previousLinks.get(link.canonicalUrl);
+    if (!found) return [];
+    const description = found.descriptions[language] || Object.values(found.descriptions)[0] as StructuredLink;
+    const { name, type, description: text, keyPoints, userValue, complexity } = description;
+    return [{
+      ...structureLink({ name, type, description: text, keyPoints, userValue, complexity, url: link.url }, link, 'cache'),
+      previous: found.previous,
+    }];
+  });
+}
+
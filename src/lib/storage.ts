@@ -0,0 +1,45 @@
+// Local file storage for data that outlives a request (caches, history...).
+// Everything lives under DATA_DIR as JSON files.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Vercel functions can only write to /tmp; locally keep data next to the project
+export const DATA_DIR = process.env.DATA_DIR
+  || (process.env.VERCEL ? path.join('/tmp', 'whatsapp-links-summary') : path.join(process.cwd(), '.data'));
+
+// Absolute path of a file inside the data directory
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+// Reads a JSON file, returning the fallback when it does not exist yet
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Failed to read ${filePath}:`, error);
+    }
+    return fallback;
+  }
+}
+
+// Writes a JSON file atomically (write to a temp file, then rename)
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+// Serializes read-modify-write cycles on a file within this process
+const fileLocks = new Map<string, Promise<unknown>>();
+
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(filePath) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  fileLocks.set(filePath, next);
+  return next;
+}
@@ -0,0 +1,198 @@
+// The machine-readable form of a summary (output=json): categories in display
+// order with every link's description, shares and page metadata, plus the
+// links that were left out and why.
+
+import type { ChatMessage } from './chat-parser';
+import { DEFAULT_LANGUAGE, SummaryLanguage } from './languages';
+import { detectLinks } from './link-detector';
+import type { PageMetadata } from './link-enrichment';
+import { getLinkGroups, getLinkSenders, LinkWithContext } from './link-extractor';
+import type { SummarizedLink, SummaryJson } from './summary-types';
+import { categoryName, getCategory, resolveCategoryId, TAXONOMY } from './taxonomy';
+import { canonicalizeUrl, displayUrl } from './url-canonical';
+
+// Where a link's description came from
+export type LinkSource = 'model' | 'cache' | 'fallback';
+
+export type SkipReason =
+  | 'outside_time_window' // Shared only in messages outside the requested window
+  | 'system_message'      // Appeared only in system events (group description, joins...)
+  | 'not_summarized'      // In the window, but missing from the summary
+  | 'already_shared';     // Already in a recent digest (see repeats.ts)
+
+export interface SkippedLink {
+  url: string;
+  canonicalUrl: string;
+  reason: SkipReason;
+  date: string;
+  groupName?: string;
+  sender?: string;
+}
+
+export interface StructuredOccurrence {
+  originalUrl: string;
+  messageContext: string;
+  date: string;
+  groupName?: string;
+  sender?: string;
+}
+
+export interface StructuredLink extends SummarizedLink {
+  canonicalUrl: string;
+  fullMessageText?: string; // The latest message it was shared in
+  source: LinkSource;
+  groups: string[];
+  senders: string[];
+  lastSharedAt: string;
+  timesShared: number;
+  occurrences: StructuredOccurrence[];
+  metadata?: PageMetadata;
+}
+
+// The digest a repeated link already appeared in
+export interface PreviousShare {
+  historyId: string;
+  sharedAt: string; // Its latest share in that digest
+  date: string;     // The same, formatted like the summary dates
+}
+
+// A link that was already in a recent digest, described as it was there
+export interface RepeatedLink extends StructuredLink {
+  previous: PreviousShare;
+}
+
+export interface StructuredCategory {
+  id: string;
+  name: string;
+  emoji: string;
+  links: StructuredLink[];
+}
+
+// Counts for the whole run, next to the summarizer's own stats
+export interface RunStats {
+  files: number;
+  messagesScanned: number;
+  messagesInRange: number;
+  linkShares: number;   // Links shared in the window, before merging duplicates
+  uniqueLinks: number;
+  skippedLinks: number;
+  timeZone: string;
+  durationMs: number;
+}
+
+export interface StructuredSummary {
+  categories: StructuredCategory[];
+  repeated?: RepeatedLink[]; // Shown in the "mentioned again" section
+  skipped: SkippedLink[];
+  run: RunStats;
+}
+
+// Links that were found in the export but not summarized. A link counts as
+// skipped only if none of its shares made it into the summary.
+export function findSkippedLinks(
+  messages: ChatMessage[],
+  isInWindow: (message: ChatMessage) => boolean,
+  summarizedUrls: Set<string>
+): SkippedLink[] {
+  const skipped = new Map<string, SkippedLink>();
+
+  for (const message of messages) {
+    if (!message.body) continue;
+    const inWindow = isInWindow(message);
+    if (inWindow && !message.isSystem) continue; // These were summarized
+
+    for (const { url } of detectLinks(message.body)) {
+      const canonicalUrl = canonicalizeUrl(url);
+      if (summarizedUrls.has(canonicalUrl)) continue;
+
+      const reason: SkipReason = inWindow ? 'system_message' : 'outside_time_window';
+      const existing = skipped.get(canonicalUrl);
+      // A share in the window explains more than an old one; otherwise keep the newest
+      const replaces = !existing
+        || (reason === 'system_message' && existing.reason === 'outside_time_window')
+        || (reason === existing.reason && new Date(existing.date) < message.timestamp);
+      if (replaces) {
+        skipped.set(canonicalUrl, {
+          url: displayUrl(url),
+          canonicalUrl,
+          reason,
+          date: message.timestamp.toISOString(),
+          groupName: message.groupName,
+          sender: message.sender,
+        });
+      }
+    }
+  }
+
+  return Array.from(skipped.values()).sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function structureLink(summary: SummarizedLink, link: LinkWithContext | undefined, source: LinkSource): StructuredLink {
+  return {
+    ...summary,
+    canonicalUrl: link?.canonicalUrl || canonicalizeUrl(summary.url),
+    fullMessageText: link?.fullMessageText,
+    source,
+    groups: link ? getLinkGroups(link) : [],
+    senders: link ? getLinkSenders(link) : [],
+    lastSharedAt: (link?.date || new Date()).toISOString(),
+    timesShared: link?.occurrences.length || 0,
+    occurrences: (link?.occurrences || []).map(occurrence => ({
+      originalUrl: occurrence.originalUrl,
+      messageContext: occurrence.messageContext,
+      date: occurrence.date.toISOString(),
+      groupName: occurrence.groupName,
+      sender: occurrence.sender,
+    })),
+    metadata: link?.metadata,
+  };
+}
+
+// Combines the summary with the extracted links, categories in taxonomy order
+export function structureCategories(
+  summaryJson: SummaryJson,
+  links: LinkWithContext[],
+  sources: Record<string, LinkSource>,
+  language: SummaryLanguage = DEFAULT_LANGUAGE
+): StructuredCategory[] {
+  const linksByUrl = new Map(links.map(link => [link.canonicalUrl, link]));
+
+  const linksByCategory = new Map<string, StructuredLink[]>();
+  for (const key in summaryJson) {
+    const id = resolveCategoryId(key);
+    const structured = summaryJson[key].map(summary => {
+      const canonicalUrl = canonicalizeUrl(summary.url);
+      return structureLink(summary, linksByUrl.get(canonicalUrl), sources[canonicalUrl] || 'model');
+    });
+    linksByCategory.set(id, [...(linksByCategory.get(id) || []), ...structured]);
+  }
+
+  return TAXONOMY
+    .filter(category => (linksByCategory.get(category.id) || []).length > 0)
+    .map(({ id }) => ({ id, name: categoryName(id, language), emoji: getCategory(id).emoji, links: linksByCategory.get(id) || [] }));
+}
+
+// The full structured result. Links that did not make it into the summary are
+// added to the skipped ones.
+export function buildStructuredSummary(
+  categories: StructuredCategory[],
+  links: LinkWithContext[],
+  skipped: SkippedLink[],
+  run: RunStats,
+  repeated: RepeatedLink[] = []
+): StructuredSummary {
+  const summarized = new Set(categories.flatMap(category => category.links.map(link => link.canonicalUrl)));
+  const notSummarized: SkippedLink[] = links
+    .filter(link => !summarized.has(link.canonicalUrl))
+    .map(link => ({
+      url: link.url,
+      canonicalUrl: link.canonicalUrl,
+      reason: 'not_summarized',
+      date: link.date.toISOString(),
+      groupName: link.groupName,
+      sender: link.sender,
+    }));
+
+  const allSkipped = [...notSummarized, ...skipped];
+  return { categories, repeated, skipped: allSkipped, run: { ...run, skippedLinks: allSkipped.length } };
+}
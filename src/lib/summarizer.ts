@@ -0,0 +1,542 @@
+// Turns the extracted links into a categorized SummaryJson. Links are split into
+// batches that fit the model's token budget, the batches are summarized in
+// parallel, and the per-batch results are merged into one set of categories.
+// The model can only pick categories from the configured taxonomy.
+
+import { mapWithConcurrency } from './concurrency';
+import { getCachedSummaries, saveSummaries } from './link-cache';
+import { summarizeLinkHeuristically } from './heuristic-provider';
+import { DEFAULT_LANGUAGE, getLanguage, SummaryLanguage } from './languages';
+import { getLinkGroups, getLinkSenders, LinkWithContext } from './link-extractor';
+import { ChatMessage, getProvider, LlmError, ProviderName } from './llm-provider';
+import type { PartialLink, ProgressListener } from './pipeline';
+import type { LinkSource } from './structured-summary';
+import { SummarizedLink, SummaryJson } from './summary-types';
+import { estimateCost, TokenUsage } from './model-pricing';
+import { validateSummaryResponse } from './summary-validation';
+import { CATEGORY_IDS, OTHER_CATEGORY_ID, resolveCategoryId, TAXONOMY } from './taxonomy';
+import { canonicalizeUrl } from './url-canonical';
+
+// Version of the prompt given to the model. Bump it whenever the prompt changes
+// so cached summaries are regenerated.
+export const SUMMARY_PROMPT_VERSION = 'v5';
+
+// Summaries are cached per language; Hebrew keeps the plain version key
+function cacheVersion(language: SummaryLanguage): string {
+  return language === DEFAULT_LANGUAGE ? SUMMARY_PROMPT_VERSION : `${SUMMARY_PROMPT_VERSION}-${language}`;
+}
+
+// Batch limits: the prompt's link list must fit the input budget, and the
+// answer for a batch must fit in max_tokens (roughly 200 tokens per link)
+const MAX_BATCH_TOKENS = 6000;
+const MAX_BATCH_LINKS = 15;
+const MAX_RESPONSE_TOKENS = 3000;
+
+// How many times an answer that fails validation is sent back for correction
+const MAX_VALIDATION_RETRIES = 1;
+
+// How many batches are sent to the model at the same time
+const SUMMARY_CONCURRENCY = Math.max(1, parseInt(process.env.SUMMARY_CONCURRENCY || '', 10) || 3);
+
+// Structured output schema: a flat list of links, each tagged with a taxonomy id.
+// Strict mode requires every field, so optional ones are nullable instead.
+const SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          category: { type: 'string', enum: CATEGORY_IDS },
+          name: { type: 'string' },
+          type: { type: 'string' },
+          description: { type: 'string' },
+          context: { type: ['string', 'null'] },
+          keyPoints: { type: 'array', items: { type: 'string' } },
+          userValue: { type: 'string' },
+          complexity: { type: ['string', 'null'] },
+        },
+        required: ['url', 'category', 'name', 'type', 'description', 'context', 'keyPoints', 'userValue', 'complexity'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['links'],
+  additionalProperties: false,
+};
+
+// Counts reported back with the summary, so dropped links never go unnoticed
+export interface SummaryStats {
+  linksFound: number;        // Unique links in the time window
+  linksProcessed: number;    // Links that appear in the summary
+  fromCache: number;         // Reused from earlier runs
+  summarizedByModel: number; // Described by the model in this run
+  fallback: number;          // Described from page metadata only (model timed out or skipped them)
+  batches: number;           // Model requests planned (before any retries)
+  provider: ProviderName;
+  model: string;
+  usage: TokenUsage;         // Tokens of every model request, retries included
+  costUsd?: number;          // Estimated from the usage; unknown for unpriced models
+}
+
+export interface SummaryResult {
+  summaryJson: SummaryJson;
+  stats: SummaryStats;
+  sources: Record<string, LinkSource>; // Where each link's description came from, by canonical URL
+}
+
+// Rough token count; Hebrew and URLs tokenize worse than English prose
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3);
+}
+
+// The line describing a link in the prompt, combining up to 3 shares of it
+function promptEntry(link: LinkWithContext): string {
+  const contexts = link.occurrences
+    .slice(0, 3)
+    .map(occurrence => occurrence.messageContext.replace(occurrence.originalUrl, '').trim()); // Avoid redundancy
+  return JSON.stringify({
+    url: link.url,
+    messageContext: contexts.join(' | '),
+    date: link.date.toISOString(), // Use ISO string for clarity
+    groupName: getLinkGroups(link).join(', '),
+    sender: getLinkSenders(link).join(', '),
+    timesShared: link.occurrences.length,
+    pageTitle: link.metadata?.title,
+    pageDescription: link.metadata?.description?.substring(0, 300),
+    siteName: link.metadata?.siteName,
+    pageType: link.metadata?.ogType
+  });
+}
+
+// Splits links into batches within both the token budget and the link limit
+function createBatches(links: LinkWithContext[]): LinkWithContext[][] {
+  const batches: LinkWithContext[][] = [];
+  let current: LinkWithContext[] = [];
+  let currentTokens = 0;
+
+  for (const link of links) {
+    const tokens = estimateTokens(promptEntry(link));
+    if (current.length > 0 && (current.length >= MAX_BATCH_LINKS || currentTokens + tokens > MAX_BATCH_TOKENS)) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(link);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+// Asks for the descriptions in another language than the Hebrew of the prompt
+function languageInstruction(language: SummaryLanguage): string {
+  if (language === DEFAULT_LANGUAGE) return '';
+  const { englishName } = getLanguage(language);
+  return `
+    - Write name, type, description, context, keyPoints, userValue and complexity in ${englishName} (not in Hebrew).`;
+}
+
+// An instruction from the reviewer when links are summarized again ("shorter", "focus on pricing")
+function reviewerInstruction(instruction: string): string {
+  if (!instruction) return '';
+  return `
+    - הנחיה נוספת מהעורך עבור הלינקים האלה (גוברת על ההנחיות שלמעלה, מלבד מבנה ה-JSON): ${instruction}`;
+}
+
+function buildPrompt(links: LinkWithContext[], dateRangeInfo: string, language: SummaryLanguage, instruction = ''): string {
+  return `
+    אתה עוזר AI שתפקידך לסכם לינקים מקבוצות וואטסאפ של קהילת יזמי סולו.
+    המטרה היא לתאר כל לינק ולשייך אותו לאחת מהקטגוריות הקבועות של הקהילה.
+
+    הנה הלינקים שחולצו ${dateRangeInfo ? dateRangeInfo : ''}:
+    ${links.map(promptEntry).join('\n')}
+
+    הקטגוריות האפשריות (category הוא המזהה שלפני הנקודתיים):
+    ${TAXONOMY.map(category => `- ${category.id}: ${category.name} - ${category.description}${category.examples.length > 0 ? ` (לדוגמה: ${category.examples.join(', ')})` : ''}`).join('\n    ')}
+
+    עבור כל לינק החזר אובייקט ברשימה links עם השדות הבאים:
+        * url: string (ה-URL המקורי)
+        * category: string (מזהה הקטגוריה המתאימה ביותר; ${OTHER_CATEGORY_ID} רק אם אף קטגוריה אחרת לא מתאימה)
+        * name: string (שם הכלי/האתר/המאמר)
+        * type: string (סוג הלינק: למשל SaaS, כלי AI, סרטון, פוסט לינקדאין, מאמר, GitHub, דיון)
+        * description: string (משפט קצר ומדויק המסביר את המטרה)
+        * context: string או null (תקציר קצר של ההודעה שבה הלינק פורסם)
+        * keyPoints: string[] (מערך של 2-3 נקודות עיקריות)
+        * userValue: string (הסבר על הערך לקהל היעד - יזמים, מפתחים וכו')
+        * complexity: string או null (הערכת זמן/מורכבות)
+
+    חשוב:
+    - נתח את תוכן הלינקים וההקשר שלהם כדי ליצור את הנתונים.
+    - כאשר קיימים pageTitle, pageDescription, siteName או pageType - הם מגיעים מהעמוד עצמו. בסס עליהם את name, type ו-description ואל תנחש.
+    - כלול את כל הלינקים שקיבלת, כל לינק פעם אחת בדיוק.${languageInstruction(language)}${reviewerInstruction(instruction)}
+  `;
+}
+
+// Errors worth retrying with a smaller batch: timeouts and cut-off or invalid JSON
+function isRecoverableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = (error as LlmError).code;
+  return error.message.toLowerCase().includes('timeout')
+    || error.name === 'APIConnectionTimeoutError'
+    || code === 'ETIMEDOUT'
+    || code === 'INVALID_RESPONSE';
+}
+
+function invalidResponseError(message: string): LlmError {
+  return Object.assign(new Error(message), { code: 'INVALID_RESPONSE' });
+}
+
+// Sends the conversation to the provider and parses the JSON answer. The raw
+// content is returned too, so it can be quoted back in a correction request.
+async function requestSummaryJson(
+  messages: ChatMessage[],
+  links: LinkWithContext[],
+  language: SummaryLanguage,
+  usage: TokenUsage
+): Promise<{ parsed: unknown; content: string }> {
+  const provider = getProvider();
+  const promptLength = messages.reduce((total, message) => total + message.content.length, 0);
+  console.log(`Attempting ${provider.name} call with ${provider.model} (prompt length: ${promptLength} characters)`);
+  const apiCallStartTime = Date.now();
+
+  const response = await provider.chat({
+    messages,
+    // Structured outputs: the answer must match the schema, categories included
+    jsonSchema: { name: 'link_summary', schema: SUMMARY_SCHEMA },
+    temperature: 0.2, // Lowered temperature for consistency
+    maxTokens: MAX_RESPONSE_TOKENS,
+    links,
+    language,
+  });
+
+  const apiCallTime = Date.now() - apiCallStartTime;
+  console.log(`${provider.name} call succeeded in ${apiCallTime}ms`);
+  console.log(`Response tokens: ${response.totalTokens || 'unknown'}`);
+  usage.promptTokens += response.promptTokens || 0;
+  usage.completionTokens += response.completionTokens || 0;
+
+  // Parse the JSON response
+  if (response.refusal) {
+    console.error('The model refused to summarize the batch:', response.refusal);
+    throw invalidResponseError('המודל סירב לסכם את הלינקים');
+  }
+  const jsonContent = response.content;
+  if (!jsonContent) {
+    console.error('Model response content is null or empty.');
+    throw invalidResponseError('קיבלנו תשובה ריקה מהמודל');
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(jsonContent);
+    console.log('Successfully parsed JSON response from the model.');
+    return { parsed, content: jsonContent };
+  } catch (parseError) {
+    console.error('Failed to parse JSON response from the model:', parseError);
+    console.error('Raw model response content:', jsonContent);
+    throw invalidResponseError('קיבלנו תשובה לא תקינה (לא JSON) מהמודל');
+  }
+}
+
+// Asks the model to fix an answer that failed validation
+function buildCorrectionPrompt(errors: string[]): string {
+  const listed = errors.slice(0, 20).map(error => `- ${error}`).join('\n');
+  const more = errors.length > 20 ? `\n(ועוד ${errors.length - 20} שגיאות)` : '';
+  return `התשובה הקודמת שלך לא עברה בדיקה:
+${listed}${more}
+
+החזר שוב את כל הלינקים, מתוקנים, באותו מבנה. השתמש רק ב-URL-ים מהרשימה שקיבלת, בדיוק כפי שהם.`;
+}
+
+// Summarizes a batch with one model conversation. Entries that fail validation
+// are reported back to the model for a corrected answer; entries that are
+// still invalid after that are left out (and get basic entries later).
+async function requestValidSummary(
+  batch: LinkWithContext[],
+  dateRangeInfo: string,
+  language: SummaryLanguage,
+  usage: TokenUsage,
+  instruction: string
+): Promise<SummaryJson> {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'אתה עוזר AI מומחה ביצירת JSON מובנה לפי סכמה מבוקשת. הפלט שלך חייב להיות JSON תקין בלבד.' },
+    { role: 'user', content: buildPrompt(batch, dateRangeInfo, language, instruction) },
+  ];
+  let summaryJson: SummaryJson = {};
+
+  for (let attempt = 0; ; attempt++) {
+    const { parsed, content } = await requestSummaryJson(messages, batch, language, usage);
+    const result = validateSummaryResponse(parsed, batch);
+    // Entries from the newer answer take precedence
+    summaryJson = mergeSummaries([result.summaryJson, summaryJson]);
+
+    if (result.errors.length === 0) {
+      return summaryJson;
+    }
+    console.warn(`Summary failed validation with ${result.errors.length} errors:`, result.errors.slice(0, 5));
+    if (attempt >= MAX_VALIDATION_RETRIES) {
+      return summaryJson;
+    }
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: buildCorrectionPrompt(result.errors) }
+    );
+  }
+}
+
+// Entries built without the model (from domain, page metadata and message
+// text), for links the model did not describe
+function basicSummaries(links: LinkWithContext[], language: SummaryLanguage): SummaryJson {
+  const summaryJson: SummaryJson = {};
+  for (const { category, link } of links.map(link => summarizeLinkHeuristically(link, language))) {
+    summaryJson[category] = [...(summaryJson[category] || []), link];
+  }
+  return summaryJson;
+}
+
+// Canonical URLs of every link in a summary
+function summarizedUrls(summaryJson: SummaryJson): Set<string> {
+  const urls = new Set<string>();
+  for (const category in summaryJson) {
+    for (const link of Array.isArray(summaryJson[category]) ? summaryJson[category] : []) {
+      if (link?.url) urls.add(canonicalizeUrl(link.url));
+    }
+  }
+  return urls;
+}
+
+// Summarizes one batch. A batch that times out or comes back broken is split in
+// half and retried; a single link that still fails gets a basic entry.
+async function summarizeBatch(
+  batch: LinkWithContext[],
+  dateRangeInfo: string,
+  language: SummaryLanguage,
+  fallbackUrls: Set<string>,
+  usage: TokenUsage,
+  instruction = ''
+): Promise<SummaryJson> {
+  let summaryJson: SummaryJson;
+  try {
+    summaryJson = await requestValidSummary(batch, dateRangeInfo, language, usage, instruction);
+  } catch (error) {
+    if (!isRecoverableError(error)) {
+      throw error;
+    }
+    if (batch.length === 1) {
+      console.warn(`Summarizing ${batch[0].url} failed, using a basic entry:`, error instanceof Error ? error.message : error);
+      fallbackUrls.add(batch[0].canonicalUrl);
+      return basicSummaries(batch, language);
+    }
+    const middle = Math.ceil(batch.length / 2);
+    console.warn(`Batch of ${batch.length} links failed (${error instanceof Error ? error.message : error}), retrying as two batches`);
+    return mergeSummaries([
+      await summarizeBatch(batch.slice(0, middle), dateRangeInfo, language, fallbackUrls, usage, instruction),
+      await summarizeBatch(batch.slice(middle), dateRangeInfo, language, fallbackUrls, usage, instruction),
+    ]);
+  }
+
+  // Links the model left out, or described invalidly, are kept with a basic entry
+  const returned = summarizedUrls(summaryJson);
+  const missing = batch.filter(link => !returned.has(link.canonicalUrl));
+  if (missing.length > 0) {
+    console.warn(`No valid summary for ${missing.length}/${batch.length} links in a batch, using basic entries`);
+    missing.forEach(link => fallbackUrls.add(link.canonicalUrl));
+    summaryJson = mergeSummaries([summaryJson, basicSummaries(missing, language)]);
+  }
+  return summaryJson;
+}
+
+// Merges several summaries into one. Category keys are resolved to taxonomy
+// ids (older cache entries may carry a category name), and a link that appears
+// more than once is kept only the first time.
+export function mergeSummaries(summaries: SummaryJson[]): SummaryJson {
+  const merged: SummaryJson = {};
+  const seenUrls = new Set<string>();
+
+  for (const summary of summaries) {
+    for (const category in summary) {
+      const links = Array.isArray(summary[category]) ? summary[category] : [];
+      const id = resolveCategoryId(category);
+
+      for (const link of links) {
+        if (!link?.url) continue;
+        const canonicalUrl = canonicalizeUrl(link.url);
+        if (seenUrls.has(canonicalUrl)) continue;
+        seenUrls.add(canonicalUrl);
+        merged[id] = [...(merged[id] || []), link];
+      }
+    }
+  }
+  return merged;
+}
+
+// Pairs each summarized link with the input link it describes, for caching.
+// Links the model returned with an unknown URL, and basic entries, are not cached.
+function collectCacheEntries(
+  summaryJson: SummaryJson,
+  inputLinks: LinkWithContext[],
+  fallbackUrls: Set<string>
+): { canonicalUrl: string; category: string; link: SummarizedLink }[] {
+  const inputUrls = new Set(inputLinks.map(link => link.canonicalUrl));
+  const entries: { canonicalUrl: string; category: string; link: SummarizedLink }[] = [];
+  for (const category in summaryJson) {
+    for (const link of summaryJson[category]) {
+      const canonicalUrl = canonicalizeUrl(link.url);
+      if (inputUrls.has(canonicalUrl) && !fallbackUrls.has(canonicalUrl)) {
+        entries.push({ canonicalUrl, category, link });
+      }
+    }
+  }
+  return entries;
+}
+
+// The links of a summary as a flat list, for progress updates
+function partialLinks(summaryJson: SummaryJson): PartialLink[] {
+  return Object.entries(summaryJson).flatMap(([category, categoryLinks]) =>
+    categoryLinks.map(link => ({ category, name: link.name, url: link.url }))
+  );
+}
+
+// Summarizes every link in the given language: cached ones are reused, the
+// rest go to the model in batches
+export async function summarizeLinks(
+  links: LinkWithContext[],
+  dateRangeInfo: string,
+  onProgress: ProgressListener = () => undefined,
+  language: SummaryLanguage = DEFAULT_LANGUAGE
+): Promise<SummaryResult> {
+  const summaryStartTime = Date.now();
+  const provider = getProvider();
+
+  // Reuse summaries of links seen on previous runs; only new links go to the model
+  const cachedSummaries = await getCachedSummaries(
+    links.map(link => link.canonicalUrl),
+    provider.model,
+    cacheVersion(language)
+  );
+  const uncachedLinks = links.filter(link => !cachedSummaries.has(link.canonicalUrl));
+  const batches = createBatches(uncachedLinks);
+  console.log(`Link cache: ${cachedSummaries.size} hits, ${uncachedLinks.length} links to summarize in ${batches.length} batches`);
+  onProgress({
+    stage: 'summary',
+    message: `${cachedSummaries.size} לינקים מהמטמון, ${uncachedLinks.length} נשלחים ל-${provider.model} ב-${batches.length} מנות`,
+    partial: [...cachedSummaries.values()].map(({ category, link }) => ({ category: resolveCategoryId(category), name: link.name, url: link.url })),
+  });
+
+  const fallbackUrls = new Set<string>();
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  let completedBatches = 0;
+  const batchResults = await mapWithConcurrency(batches, SUMMARY_CONCURRENCY, async (batch, index) => {
+    console.log(`Summarizing batch ${index + 1}/${batches.length} (${batch.length} links)`);
+    const result = await summarizeBatch(batch, dateRangeInfo, language, fallbackUrls, usage);
+    completedBatches++;
+    onProgress({
+      stage: 'summary',
+      message: `מנה ${completedBatches}/${batches.length} הושלמה (${batch.length} לינקים)`,
+      partial: partialLinks(result),
+    });
+    return result;
+  });
+  const generated = mergeSummaries(batchResults);
+
+  // Remember the new summaries, then add the cached ones to their categories
+  await saveSummaries(collectCacheEntries(generated, uncachedLinks, fallbackUrls), provider.model, cacheVersion(language));
+  const cached: SummaryJson = {};
+  cachedSummaries.forEach(({ category, link }) => {
+    cached[category] = [...(cached[category] || []), link];
+  });
+  const summaryJson = mergeSummaries([generated, cached]);
+
+  const inputUrls = new Set(links.map(link => link.canonicalUrl));
+  const processed = [...summarizedUrls(summaryJson)].filter(url => inputUrls.has(url)).length;
+  const stats: SummaryStats = {
+    linksFound: links.length,
+    linksProcessed: processed,
+    fromCache: cachedSummaries.size,
+    summarizedByModel: uncachedLinks.length - fallbackUrls.size,
+    fallback: fallbackUrls.size,
+    batches: batches.length,
+    provider: provider.name,
+    model: provider.model,
+    usage,
+    costUsd: estimateCost(provider, usage),
+  };
+
+  const sources: Record<string, LinkSource> = {};
+  for (const link of links) {
+    sources[link.canonicalUrl] = cachedSummaries.has(link.canonicalUrl)
+      ? 'cache'
+      : fallbackUrls.has(link.canonicalUrl) ? 'fallback' : 'model';
+  }
+
+  console.log(`Total summary generation time: ${Date.now() - summaryStartTime}ms`, stats);
+  return { summaryJson, stats, sources };
+}
+
+// Stats of a digest with nothing to summarize; the model is not called
+export function emptySummaryStats(): SummaryStats {
+  const provider = getProvider();
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  return {
+    linksFound: 0,
+    linksProcessed: 0,
+    fromCache: 0,
+    summarizedByModel: 0,
+    fallback: 0,
+    batches: 0,
+    provider: provider.name,
+    model: provider.model,
+    usage,
+    costUsd: estimateCost(provider, usage),
+  };
+}
+
+// Summarizes the given links again, skipping the cache, e.g. when a reviewer
+// found a description wrong. Without an instruction the new summaries replace
+// the cached ones; summaries written to a reviewer's instruction are not
+// cached, since they only fit this digest.
+export async function resummarizeLinks(
+  links: LinkWithContext[],
+  instruction: string,
+  language: SummaryLanguage = DEFAULT_LANGUAGE
+): Promise<SummaryResult> {
+  const startTime = Date.now();
+  const provider = getProvider();
+  const batches = createBatches(links);
+  console.log(`Summarizing ${links.length} links again in ${batches.length} batches${instruction ? ` (instruction: ${instruction})` : ''}`);
+
+  const fallbackUrls = new Set<string>();
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  const batchResults = await mapWithConcurrency(batches, SUMMARY_CONCURRENCY, batch =>
+    summarizeBatch(batch, '', language, fallbackUrls, usage, instruction)
+  );
+  const summaryJson = mergeSummaries(batchResults);
+  if (!instruction) {
+    await saveSummaries(collectCacheEntries(summaryJson, links, fallbackUrls), provider.model, cacheVersion(language));
+  }
+
+  const inputUrls = new Set(links.map(link => link.canonicalUrl));
+  const stats: SummaryStats = {
+    linksFound: links.length,
+    linksProcessed: [...summarizedUrls(summaryJson)].filter(url => inputUrls.has(url)).length,
+    fromCache: 0,
+    summarizedByModel: links.length - fallbackUrls.size,
+    fallback: fallbackUrls.size,
+    batches: batches.length,
+    provider: provider.name,
+    model: provider.model,
+    usage,
+    costUsd: estimateCost(provider, usage),
+  };
+  const sources: Record<string, LinkSource> = {};
+  for (const link of links) {
+    sources[link.canonicalUrl] = fallbackUrls.has(link.canonicalUrl) ? 'fallback' : 'model';
+  }
+
+  console.log(`Summarized ${stats.linksProcessed} links again in ${Date.now() - startTime}ms`);
+  return { summaryJson, stats, sources };
+}
@@ -0,0 +1,19 @@
+// The formats a summary can be rendered in. Kept apart from the renderers so
+// the page can list them without pulling the renderers in.
+
+export type SummaryFormat = 'whatsapp' | 'markdown' | 'html' | 'telegram' | 'slack';
+
+export const DEFAULT_SUMMARY_FORMAT: SummaryFormat = 'whatsapp';
+
+// In the order shown on the page
+export const SUMMARY_FORMATS: { format: SummaryFormat; label: string }[] = [
+  { format: 'whatsapp', label: 'וואטסאפ' },
+  { format: 'markdown', label: 'Markdown (GitHub / Notion)' },
+  { format: 'html', label: 'HTML (ניוזלטר / מייל)' },
+  { format: 'telegram', label: 'טלגרם (MarkdownV2)' },
+  { format: 'slack', label: 'Slack (mrkdwn)' },
+];
+
+export function isSummaryFormat(value: unknown): value is SummaryFormat {
+  return SUMMARY_FORMATS.some(({ format }) => format === value);
+}
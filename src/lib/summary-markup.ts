@@ -0,0 +1,144 @@
+// Renders a summary through its templates (see summary-templates.ts) into
+// blocks: the header, category headers and links. Formats only differ in
+// escaping, emphasis, links and bullets; the line-based ones (WhatsApp,
+// Markdown, Telegram, Slack) share renderLines and renderLineParts below.
+
+import { DEFAULT_LANGUAGE, getLanguage, SummaryLanguage } from './languages';
+import type { RepeatedLink, StructuredCategory, StructuredLink } from './structured-summary';
+import { compileTemplates, DEFAULT_TEMPLATES, SummaryTemplates, TemplateName } from './summary-templates';
+import { RawText, renderTemplate, TemplateContext, TemplateMarkup } from './template-engine';
+
+export interface RenderInput {
+  categories: StructuredCategory[]; // In display order, names in the digest's language
+  repeats?: RepeatedLink[]; // Links from a recent digest, listed briefly at the end
+  dates: { from: string; to: string }; // Formatted dates of the oldest and newest share
+  language?: SummaryLanguage;   // Hebrew when not given
+  templates?: SummaryTemplates; // The language's defaults when not given
+}
+
+// The message context is cut, so one long message doesn't take over the summary
+const MAX_CONTEXT_LENGTH = 150;
+
+// How a format marks up text. bold and heading get text that is already escaped.
+export interface LineMarkup extends TemplateMarkup {
+  link(url: string): string;
+  bullets: [string, string, string]; // Prefixes of link, detail and key point lines
+}
+
+function linkContext(link: StructuredLink, markup: LineMarkup): TemplateContext {
+  // Prefer the full message text over the model's context, it reads better
+  let context = link.context || undefined;
+  if (link.fullMessageText) {
+    const cut = link.fullMessageText.length > MAX_CONTEXT_LENGTH ? '...' : '';
+    context = `${link.fullMessageText.substring(0, MAX_CONTEXT_LENGTH)}${cut}`;
+  }
+
+  return {
+    name: link.name,
+    type: link.type,
+    description: link.description,
+    context,
+    groups: link.groups,
+    groupCount: link.groups.length,
+    sharedInGroups: link.groups.length > 1,
+    senders: link.senders,
+    timesShared: link.timesShared,
+    keyPoints: link.keyPoints,
+    userValue: link.userValue, // Basic entries built without the model have none
+    complexity: link.complexity,
+    url: link.url,
+    link: new RawText(markup.link(link.url)),
+    bullet: new RawText(markup.bullets[0]),
+    detailBullet: new RawText(markup.bullets[1]),
+    pointBullet: new RawText(markup.bullets[2]),
+  };
+}
+
+// A rendered summary cut into the blocks it may be split between
+export interface RenderedBlocks {
+  header: string;
+  categories: { header: string; continuedHeader: string; links: string[] }[];
+}
+
+export function renderBlocks(input: RenderInput, markup: LineMarkup): RenderedBlocks {
+  const language = getLanguage(input.language || DEFAULT_LANGUAGE);
+  const templates = compileTemplates(input.templates || DEFAULT_TEMPLATES[language.code], language.code);
+  const render = (name: TemplateName, context: TemplateContext) => renderTemplate(templates[name], context, markup).trim();
+
+  const { from, to } = input.dates;
+  const categories = input.categories.map(category => {
+    const context = { id: category.id, name: category.name, emoji: category.emoji, linkCount: category.links.length };
+    return {
+      header: render('category', context),
+      continuedHeader: render('category', { ...context, continued: true }),
+      links: category.links.map(link => render('link', linkContext(link, markup))),
+    };
+  });
+
+  // The "mentioned again" section is one compact block, one line per link
+  const repeats = input.repeats || [];
+  if (repeats.length > 0) {
+    const context = { id: 'repeats', name: language.repeatedLabel, emoji: '🔁', linkCount: repeats.length };
+    categories.push({
+      header: render('category', context),
+      continuedHeader: render('category', { ...context, continued: true }),
+      links: [repeats.map(link => render('repeat', { ...linkContext(link, markup), previousDate: link.previous.date })).join('\n')],
+    });
+  }
+
+  return {
+    header: render('header', {
+      dateRange: from === to ? `${language.dateLabel}: ${from}` : `${language.dateRangeLabel}: ${from} - ${to}`,
+      date: from === to ? from : `${from}-${to}`,
+      linkCount: input.categories.reduce((total, category) => total + category.links.length, 0),
+      categoryCount: input.categories.length,
+    }),
+    categories,
+  };
+}
+
+// Blocks are separated by an empty line
+const joinBlocks = (blocks: string[]) => blocks.join('\n\n').trim();
+
+export function renderLines(input: RenderInput, markup: LineMarkup): string {
+  const { header, categories } = renderBlocks(input, markup);
+  return joinBlocks([header, ...categories.flatMap(category => [category.header, ...category.links])]);
+}
+
+// Room kept in each part for its "2/3" numbering line
+const NUMBERING_RESERVE = 10;
+
+// Renders the summary as numbered messages of at most maxLength characters,
+// split between categories or links. A category split across messages gets
+// its header again. A single link longer than the limit still gets a message
+// of its own.
+export function renderLineParts(input: RenderInput, markup: LineMarkup, maxLength: number): string[] {
+  const { header, categories } = renderBlocks(input, markup);
+  const fits = (blocks: string[]) => joinBlocks(blocks).length + NUMBERING_RESERVE <= maxLength;
+
+  const parts: string[][] = [];
+  let current = [header];
+  for (const category of categories) {
+    // Start the category in a new message unless its header and first link fit here
+    if (current.length > 0 && !fits([...current, category.header, category.links[0]])) {
+      parts.push(current);
+      current = [];
+    }
+    current.push(category.header);
+
+    for (const [index, summaryLink] of category.links.entries()) {
+      if (index > 0 && !fits([...current, summaryLink])) {
+        parts.push(current);
+        current = [category.continuedHeader];
+      }
+      current.push(summaryLink);
+    }
+  }
+  parts.push(current);
+
+  const texts = parts.filter(part => part.length > 0).map(joinBlocks);
+  if (texts.length === 1) {
+    return texts;
+  }
+  return texts.map((text, index) => `${markup.escape(`${index + 1}/${texts.length}`)}\n${text}`);
+}
@@ -0,0 +1,39 @@
+// Renders a structured summary in one of the output formats (see
+// summary-formats.ts). WhatsApp is the message posted to the community; the
+// other formats carry the same content for cross-posting.
+
+import { renderHtml } from './html-renderer';
+import { markdownMarkup, slackMarkup, telegramMarkup, whatsappMarkup } from './line-renderers';
+import { DEFAULT_SUMMARY_FORMAT, SummaryFormat } from './summary-formats';
+import { LineMarkup, RenderInput, renderLineParts, renderLines } from './summary-markup';
+
+interface Renderer {
+  render(input: RenderInput): string;
+  renderParts(input: RenderInput, maxLength: number): string[]; // Numbered messages under maxLength
+}
+
+const lineRenderer = (markup: LineMarkup): Renderer => ({
+  render: input => renderLines(input, markup),
+  renderParts: (input, maxLength) => renderLineParts(input, markup, maxLength),
+});
+
+const RENDERERS: Record<SummaryFormat, Renderer> = {
+  whatsapp: lineRenderer(whatsappMarkup),
+  markdown: lineRenderer(markdownMarkup),
+  // An HTML page is sent whole, it is never split
+  html: { render: renderHtml, renderParts: input => [renderHtml(input)] },
+  telegram: lineRenderer(telegramMarkup),
+  slack: lineRenderer(slackMarkup),
+};
+
+export function renderSummary(input: RenderInput, format: SummaryFormat = DEFAULT_SUMMARY_FORMAT): string {
+  console.log(`Rendering summary as ${format}`);
+  return RENDERERS[format].render(input);
+}
+
+// The summary as several messages, each at most maxLength characters long
+export function renderSummaryParts(input: RenderInput, format: SummaryFormat, maxLength: number): string[] {
+  const parts = RENDERERS[format].renderParts(input, maxLength);
+  console.log(`Split the ${format} summary into ${parts.length} parts of up to ${maxLength} characters`);
+  return parts;
+}
@@ -0,0 +1,257 @@
+// Renders a summary again after it was reviewed on the page: links moved
+// between categories, edited, reordered or left out, and categories renamed.
+// The edited categories come back from the browser, so they are checked here.
+// Only links the reviewer asks to regenerate are sent to the model again.
+
+import { DEFAULT_LANGUAGE, isSummaryLanguage, SummaryLanguage } from './languages';
+import type { LinkWithContext } from './link-extractor';
+import { MIN_MESSAGE_LENGTH } from './pipeline';
+import type { RepeatedLink, StructuredCategory, StructuredLink } from './structured-summary';
+import { resummarizeLinks, SummaryStats } from './summarizer';
+import { DEFAULT_SUMMARY_FORMAT, isSummaryFormat, SummaryFormat } from './summary-formats';
+import type { RenderInput } from './summary-markup';
+import { renderSummary, renderSummaryParts } from './summary-renderer';
+import { getTemplates } from './summary-templates';
+import { canonicalizeUrl } from './url-canonical';
+
+// Body of POST /api/render
+export interface ReviewedSummary {
+  categories: StructuredCategory[];
+  repeats?: RepeatedLink[]; // The "mentioned again" section, as it came out of the analysis
+  dates: { from: string; to: string };
+  language: SummaryLanguage;
+  format: SummaryFormat;
+  maxMessageLength?: number;
+}
+
+// Body of POST /api/regenerate
+export interface RegenerateRequest {
+  categories: StructuredCategory[];
+  urls: string[];      // The links to summarize again
+  instruction: string; // Optional, e.g. "shorter" or "focus on pricing"
+  language: SummaryLanguage;
+}
+
+export interface RegeneratedLinks {
+  categories: StructuredCategory[]; // With the new descriptions in place
+  regenerated: string[];            // URLs that got a new description
+  stats: SummaryStats;
+}
+
+// Longer instructions are cut; they are meant as a short hint
+const MAX_INSTRUCTION_LENGTH = 300;
+
+export interface RenderedReview {
+  summary: string;
+  format: SummaryFormat;
+  language: SummaryLanguage;
+  parts?: string[];
+  linkCount: number;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const stringList = (value: unknown): string[] => (Array.isArray(value) ? value.filter(isString) : []);
+
+type Fields = Record<string, unknown>;
+
+function readLink(value: unknown): StructuredLink | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const link = value as Fields;
+  if (!isString(link.url) || !isString(link.name) || !link.name.trim()) {
+    return null;
+  }
+
+  // Everything else the link had (shares, metadata) is kept as it was sent
+  return {
+    ...(link as unknown as StructuredLink),
+    name: link.name.trim(),
+    type: isString(link.type) ? link.type : '',
+    description: isString(link.description) ? link.description : '',
+    keyPoints: stringList(link.keyPoints).map(point => point.trim()).filter(Boolean),
+    userValue: isString(link.userValue) ? link.userValue : '',
+    groups: stringList(link.groups),
+    senders: stringList(link.senders),
+    timesShared: typeof link.timesShared === 'number' ? link.timesShared : 1,
+  };
+}
+
+// The edited categories sent by the page, or what is wrong with them
+function readCategories(categories: unknown): StructuredCategory[] | { error: string } {
+  if (!Array.isArray(categories)) {
+    return { error: 'categories must be an array' };
+  }
+
+  const reviewed: StructuredCategory[] = [];
+  for (const value of categories) {
+    const category = (value || {}) as Fields;
+    if (!isString(category.id) || !isString(category.name) || !Array.isArray(category.links)) {
+      return { error: 'Each category needs an id, a name and links' };
+    }
+    const links = category.links.map(readLink);
+    if (links.some(link => link === null)) {
+      return { error: `A link in "${category.name}" has no url or name` };
+    }
+    // Categories left with no links are not shown
+    if (links.length > 0) {
+      reviewed.push({
+        id: category.id,
+        name: category.name.trim() || category.id,
+        emoji: isString(category.emoji) ? category.emoji : '',
+        links: links as StructuredLink[],
+      });
+    }
+  }
+  return reviewed;
+}
+
+// The "mentioned again" links sent back with the summary; broken ones are dropped
+function readRepeats(repeats: unknown): RepeatedLink[] {
+  if (!Array.isArray(repeats)) {
+    return [];
+  }
+  return repeats.flatMap(value => {
+    const link = readLink(value);
+    const { historyId, sharedAt, date } = ((value as Fields).previous || {}) as Fields;
+    if (!link || !isString(historyId) || !isString(sharedAt) || !isString(date)) {
+      return [];
+    }
+    return [{ ...link, previous: { historyId, sharedAt, date } }];
+  });
+}
+
+// The reviewed summary in a request body, or what is wrong with it
+export function readReviewedSummary(body: unknown): ReviewedSummary | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Expected a JSON object' };
+  }
+  const { categories, repeats, dates, language, format, maxMessageLength } = body as Fields;
+
+  const reviewed = readCategories(categories);
+  if ('error' in reviewed) {
+    return reviewed;
+  }
+  const { from, to } = (dates || {}) as Fields;
+  if (!isString(from) || !isString(to)) {
+    return { error: 'dates must have from and to' };
+  }
+
+  const length = Number(maxMessageLength);
+  return {
+    categories: reviewed,
+    repeats: readRepeats(repeats),
+    dates: { from, to },
+    language: isSummaryLanguage(language) ? language : DEFAULT_LANGUAGE,
+    format: isSummaryFormat(format) ? format : DEFAULT_SUMMARY_FORMAT,
+    maxMessageLength: length > 0 ? Math.max(length, MIN_MESSAGE_LENGTH) : undefined,
+  };
+}
+
+// Renders the reviewed summary with the language's templates, like the pipeline does
+export async function renderReviewedSummary(reviewed: ReviewedSummary): Promise<RenderedReview> {
+  const { categories, repeats, dates, language, format, maxMessageLength } = reviewed;
+  const input: RenderInput = { categories, repeats, dates, language, templates: await getTemplates(language) };
+  const linkCount = categories.reduce((total, category) => total + category.links.length, 0);
+  console.log(`Rendering a reviewed ${language} summary: ${categories.length} categories, ${linkCount} links`);
+
+  return {
+    summary: renderSummary(input, format),
+    format,
+    language,
+    parts: maxMessageLength ? renderSummaryParts(input, format, maxMessageLength) : undefined,
+    linkCount,
+  };
+}
+
+// The links to summarize again in a request body, or what is wrong with it
+export function readRegenerateRequest(body: unknown): RegenerateRequest | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Expected a JSON object' };
+  }
+  const { categories, urls, instruction, language } = body as Fields;
+
+  const reviewed = readCategories(categories);
+  if ('error' in reviewed) {
+    return reviewed;
+  }
+  const requested = new Set(stringList(urls).map(canonicalizeUrl));
+  const found = reviewed.flatMap(category => category.links).filter(link => requested.has(canonicalizeUrl(link.url)));
+  if (found.length === 0) {
+    return { error: 'urls must name at least one link of the summary' };
+  }
+
+  return {
+    categories: reviewed,
+    urls: found.map(link => link.url),
+    instruction: isString(instruction) ? instruction.trim().substring(0, MAX_INSTRUCTION_LENGTH) : '',
+    language: isSummaryLanguage(language) ? language : DEFAULT_LANGUAGE,
+  };
+}
+
+// Rebuilds the extracted link (shares and page metadata) a structured link was made from
+function toLinkWithContext(link: StructuredLink): LinkWithContext {
+  const occurrences = (Array.isArray(link.occurrences) ? link.occurrences : []).map(occurrence => ({
+    originalUrl: occurrence.originalUrl || link.url,
+    messageContext: occurrence.messageContext || '',
+    date: new Date(occurrence.date),
+    groupName: occurrence.groupName,
+    sender: occurrence.sender,
+  }));
+  const latest = occurrences[0];
+  const date = latest && !isNaN(latest.date.getTime()) ? latest.date : new Date(link.lastSharedAt || Date.now());
+
+  return {
+    url: link.url,
+    canonicalUrl: canonicalizeUrl(link.url),
+    messageContext: latest?.messageContext || link.context || '',
+    fullMessageText: link.fullMessageText,
+    date,
+    groupName: latest?.groupName,
+    sender: latest?.sender,
+    occurrences: occurrences.length > 0 ? occurrences : [{ originalUrl: link.url, messageContext: link.context || '', date }],
+    metadata: link.metadata,
+  };
+}
+
+// Summarizes the requested links again and puts the new descriptions in place.
+// Links stay in the category and position the reviewer gave them.
+export async function regenerateLinks(request: RegenerateRequest): Promise<RegeneratedLinks> {
+  const { categories, urls, instruction, language } = request;
+  const requested = new Set(urls.map(canonicalizeUrl));
+  const links = categories
+    .flatMap(category => category.links)
+    .filter(link => requested.has(canonicalizeUrl(link.url)))
+    .map(toLinkWithContext);
+
+  const { summaryJson, stats, sources } = await resummarizeLinks(links, instruction, language);
+  const summaries = new Map(Object.values(summaryJson).flat().map(summary => [canonicalizeUrl(summary.url), summary]));
+
+  const regenerated: string[] = [];
+  const updated = categories.map(category => ({
+    ...category,
+    links: category.links.map(link => {
+      const canonicalUrl = canonicalizeUrl(link.url);
+      const summary = requested.has(canonicalUrl) ? summaries.get(canonicalUrl) : undefined;
+      if (!summary) {
+        return link;
+      }
+      regenerated.push(link.url);
+      return {
+        ...link,
+        name: summary.name,
+        type: summary.type,
+        description: summary.description,
+        context: summary.context,
+        keyPoints: summary.keyPoints,
+        userValue: summary.userValue,
+        complexity: summary.complexity,
+        source: sources[canonicalUrl] || 'model',
+      };
+    }),
+  }));
+
+  console.log(`Regenerated ${regenerated.length}/${urls.length} links`);
+  return { categories: updated, regenerated, stats };
+}
@@ -0,0 +1,267 @@
+// The editable templates of the rendered summary: the header, each category's
+// header and each link, per digest language. They are stored under DATA_DIR so
+// the greeting, labels and shown fields can change without a code change; see
+// template-engine.ts for the syntax.
+
+import { DEFAULT_LANGUAGE, LANGUAGES, SummaryLanguage } from './languages';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import { parseTemplate, templateFields, TemplateNode } from './template-engine';
+
+export type TemplateName = 'header' | 'category' | 'link' | 'repeat';
+
+export type SummaryTemplates = Record<TemplateName, string>;
+
+export const TEMPLATE_NAMES: TemplateName[] = ['header', 'category', 'link', 'repeat'];
+
+// The fixed wording of the default templates, per language
+interface TemplateLabels {
+  greeting: string;
+  title: string;
+  continued: string;
+  description: string;
+  context: string;
+  sharedIn: (groupCount: string, groups: string) => string;
+  by: string;
+  group: string;
+  sender: string;
+  keyPoints: string;
+  userValue: string;
+  complexity: string;
+  link: string;
+  previously: (date: string) => string;
+}
+
+const LABELS: Record<SummaryLanguage, TemplateLabels> = {
+  he: {
+    greeting: 'לילה טוב לכולם. יום פורה עבר עלינו היום בקבוצות השונות',
+    title: 'סיכום לינקים שפורסמו בקבוצות השונות בקהילה:',
+    continued: 'המשך',
+    description: 'תיאור',
+    context: 'הקשר ההודעה',
+    sharedIn: (groupCount, groups) => `שותף ב-${groupCount} קבוצות (${groups})`,
+    by: 'על ידי',
+    group: 'קבוצה',
+    sender: 'שולח',
+    keyPoints: 'נקודות מפתח',
+    userValue: 'ערך למשתמש',
+    complexity: 'מורכבות/זמן',
+    link: 'לינק',
+    previously: date => `הופיע בסיכום מ-${date}`,
+  },
+  en: {
+    greeting: 'Good evening everyone. It was a busy day in our groups',
+    title: 'Links shared in the community groups:',
+    continued: 'continued',
+    description: 'Description',
+    context: 'Message context',
+    sharedIn: (groupCount, groups) => `Shared in ${groupCount} groups (${groups})`,
+    by: 'by',
+    group: 'Group',
+    sender: 'Shared by',
+    keyPoints: 'Key points',
+    userValue: 'Why it matters',
+    complexity: 'Effort',
+    link: 'Link',
+    previously: date => `featured on ${date}`,
+  },
+  ar: {
+    greeting: 'مساء الخير للجميع. كان يومًا حافلًا في مجموعاتنا',
+    title: 'ملخص الروابط التي نُشرت في مجموعات المجتمع:',
+    continued: 'تتمة',
+    description: 'الوصف',
+    context: 'سياق الرسالة',
+    sharedIn: (groupCount, groups) => `نُشر في ${groupCount} مجموعات (${groups})`,
+    by: 'بواسطة',
+    group: 'المجموعة',
+    sender: 'المرسل',
+    keyPoints: 'نقاط رئيسية',
+    userValue: 'القيمة للمستخدم',
+    complexity: 'الجهد/الوقت',
+    link: 'الرابط',
+    previously: date => `ظهر في ملخص ${date}`,
+  },
+  ru: {
+    greeting: 'Добрый вечер всем. Сегодня в группах был насыщенный день',
+    title: 'Ссылки, опубликованные в группах сообщества:',
+    continued: 'продолжение',
+    description: 'Описание',
+    context: 'Контекст сообщения',
+    sharedIn: (groupCount, groups) => `Опубликовано в ${groupCount} группах (${groups})`,
+    by: 'от',
+    group: 'Группа',
+    sender: 'Отправитель',
+    keyPoints: 'Ключевые моменты',
+    userValue: 'Польза',
+    complexity: 'Сложность/время',
+    link: 'Ссылка',
+    previously: date => `был в дайджесте от ${date}`,
+  },
+};
+
+function defaultTemplates(labels: TemplateLabels): SummaryTemplates {
+  return {
+    header: `${labels.greeting}
+
+{{#title}}${labels.title}{{/title}}
+{{dateRange}}`,
+
+    category: `{{#heading}}{{emoji}} {{name}}{{#if continued}} (${labels.continued}){{/if}}{{/heading}}`,
+
+    link: `{{bullet}}{{#bold}}{{name}}{{/bold}} - {{type}}
+{{detailBullet}}${labels.description}: {{description}}
+{{#if context}}
+{{detailBullet}}${labels.context}: {{context}}
+{{/if}}
+{{#if sharedInGroups}}
+{{detailBullet}}${labels.sharedIn('{{groupCount}}', '{{groups}}')}{{#if senders}} ${labels.by} {{senders}}{{/if}}
+{{/if}}
+{{#unless sharedInGroups}}
+{{#if groups}}
+{{detailBullet}}${labels.group}: {{groups}}
+{{/if}}
+{{#if senders}}
+{{detailBullet}}${labels.sender}: {{senders}}
+{{/if}}
+{{/unless}}
+{{#if keyPoints}}
+{{detailBullet}}${labels.keyPoints}:
+{{#each keyPoints}}
+{{pointBullet}}{{this}}
+{{/each}}
+{{/if}}
+{{#if userValue}}
+{{detailBullet}}${labels.userValue}: {{userValue}}
+{{/if}}
+{{#if complexity}}
+{{detailBullet}}${labels.complexity}: {{complexity}}
+{{/if}}
+{{detailBullet}}${labels.link}: {{link}}`,
+
+    // One compact line per link that already appeared in a previous digest
+    repeat: `{{bullet}}{{#bold}}{{name}}{{/bold}} - {{link}} (${labels.previously('{{previousDate}}')})`,
+  };
+}
+
+export const DEFAULT_TEMPLATES = Object.fromEntries(
+  LANGUAGES.map(({ code }) => [code, defaultTemplates(LABELS[code])])
+) as Record<SummaryLanguage, SummaryTemplates>;
+
+// The fields each template can use, with a short description for the editor
+export const TEMPLATE_FIELDS: Record<TemplateName, Record<string, string>> = {
+  header: {
+    dateRange: 'תאריך או טווח התאריכים של הסיכום',
+    date: 'התאריך בלבד (למשל 12.10.25 או 10.10.25-12.10.25)',
+    linkCount: 'מספר הלינקים בסיכום',
+    categoryCount: 'מספר הקטגוריות',
+  },
+  category: {
+    id: 'מזהה הקטגוריה',
+    name: 'שם הקטגוריה',
+    emoji: 'האימוג\'י של הקטגוריה',
+    linkCount: 'מספר הלינקים בקטגוריה',
+    continued: 'מוגדר כשהקטגוריה ממשיכה מהודעה קודמת',
+  },
+  link: {
+    name: 'שם הכלי או האתר',
+    type: 'סוג (כלי, מאמר, סרטון...)',
+    description: 'תיאור',
+    context: 'הקשר ההודעה',
+    groups: 'הקבוצות שבהן שותף',
+    groupCount: 'מספר הקבוצות',
+    sharedInGroups: 'מוגדר כששותף ביותר מקבוצה אחת',
+    senders: 'השולחים',
+    timesShared: 'מספר השיתופים',
+    keyPoints: 'נקודות מפתח (רשימה)',
+    userValue: 'ערך למשתמש',
+    complexity: 'מורכבות/זמן',
+    url: 'הכתובת כטקסט',
+    link: 'הכתובת כקישור בפורמט הפלט',
+    bullet: 'תבליט של שורת הלינק',
+    detailBullet: 'תבליט של שורת פרט',
+    pointBullet: 'תבליט של נקודת מפתח',
+  },
+  repeat: {
+    name: 'שם הכלי או האתר',
+    type: 'סוג (כלי, מאמר, סרטון...)',
+    description: 'תיאור',
+    groups: 'הקבוצות שבהן שותף הפעם',
+    senders: 'השולחים הפעם',
+    url: 'הכתובת כטקסט',
+    link: 'הכתובת כקישור בפורמט הפלט',
+    previousDate: 'תאריך הסיכום הקודם שבו הופיע',
+    bullet: 'תבליט של שורת הלינק',
+  },
+};
+
+export type CompiledTemplates = Record<TemplateName, TemplateNode[]>;
+
+const templatesFile = () => dataPath('templates.json');
+
+// Problems with a template, as messages for the editor; empty when it is usable
+export function validateTemplate(name: TemplateName, source: string): string[] {
+  try {
+    const unknown = templateFields(parseTemplate(source)).filter(field => !(field in TEMPLATE_FIELDS[name]));
+    return unknown.map(field => `${name}: unknown field {{${field}}}`);
+  } catch (error) {
+    return [`${name}: ${error instanceof Error ? error.message : 'invalid template'}`];
+  }
+}
+
+// Stored templates per language. Files written before templates had languages
+// hold the Hebrew ones at the top level.
+type TemplatesFile = Partial<Record<SummaryLanguage, Partial<SummaryTemplates>>>;
+
+async function readTemplatesFile(): Promise<TemplatesFile> {
+  const stored = await readJsonFile<TemplatesFile & Partial<SummaryTemplates>>(templatesFile(), {});
+  if (TEMPLATE_NAMES.some(name => typeof stored[name] === 'string')) {
+    return { he: Object.fromEntries(TEMPLATE_NAMES.filter(name => typeof stored[name] === 'string').map(name => [name, stored[name]])) };
+  }
+  return stored;
+}
+
+// The stored templates of a language, with the defaults for any that were never edited
+export async function getTemplates(language: SummaryLanguage = DEFAULT_LANGUAGE): Promise<SummaryTemplates> {
+  const stored = await readTemplatesFile();
+  return { ...DEFAULT_TEMPLATES[language], ...stored[language] };
+}
+
+// Saves the given templates of a language. Nothing is saved if any of them is invalid.
+export async function saveTemplates(
+  changes: Partial<SummaryTemplates>,
+  language: SummaryLanguage = DEFAULT_LANGUAGE
+): Promise<{ templates?: SummaryTemplates; errors: string[] }> {
+  const errors = TEMPLATE_NAMES
+    .filter(name => changes[name] !== undefined)
+    .flatMap(name => validateTemplate(name, changes[name] as string));
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const stored = await readTemplatesFile();
+  const templates = { ...DEFAULT_TEMPLATES[language], ...stored[language], ...changes };
+  await writeJsonFile(templatesFile(), { ...stored, [language]: templates });
+  console.log(`Saved ${language} summary templates: ${Object.keys(changes).join(', ')}`);
+  return { templates, errors };
+}
+
+export async function resetTemplates(language: SummaryLanguage = DEFAULT_LANGUAGE): Promise<SummaryTemplates> {
+  const stored = await readTemplatesFile();
+  delete stored[language];
+  await writeJsonFile(templatesFile(), stored);
+  console.log(`${language} summary templates reset to the defaults`);
+  return DEFAULT_TEMPLATES[language];
+}
+
+// Stored templates are validated on save; a broken file falls back to the defaults
+export function compileTemplates(templates: SummaryTemplates, language: SummaryLanguage = DEFAULT_LANGUAGE): CompiledTemplates {
+  const compiled = {} as CompiledTemplates;
+  for (const name of TEMPLATE_NAMES) {
+    try {
+      compiled[name] = parseTemplate(templates[name]);
+    } catch (error) {
+      console.error(`Invalid ${name} template, using the default:`, error);
+      compiled[name] = parseTemplate(DEFAULT_TEMPLATES[language][name]);
+    }
+  }
+  return compiled;
+}
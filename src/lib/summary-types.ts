@@ -0,0 +1,17 @@
+// --- JSON Mode Schema Definitions ---
+
+export interface SummarizedLink {
+  name: string;        // Name of the tool/site
+  type: string;        // Type: SaaS, article, video, etc.
+  description: string; // Short description
+  context?: string;     // Context from the message (optional)
+  keyPoints: string[]; // 2-3 key points/features
+  userValue: string;   // Value for the target audience
+  complexity?: string;  // Optional: Estimated time/complexity
+  url: string;         // The actual URL
+}
+
+// The main structure: taxonomy category ids (see taxonomy.ts) mapped to arrays of links
+export type SummaryJson = Record<string, SummarizedLink[]>;
+
+// --- End JSON Mode Schema Definitions ---
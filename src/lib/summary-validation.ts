@@ -0,0 +1,138 @@
+// Runtime validation of the model's summary JSON. The answer is checked against
+// the SummarizedLink shape and against the links that were actually sent, so a
+// malformed or made-up entry never reaches the renderer.
+
+import type { LinkWithContext } from './link-extractor';
+import type { SummarizedLink, SummaryJson } from './summary-types';
+import { resolveCategoryId } from './taxonomy';
+import { canonicalizeUrl } from './url-canonical';
+
+export interface ValidationResult {
+  summaryJson: SummaryJson; // Only the entries that passed validation
+  errors: string[];         // One line per problem, phrased so it can be sent back to the model
+}
+
+// A link entry before validation, with the category it was found under
+interface RawEntry {
+  path: string;
+  category: unknown;
+  value: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Finds the link entries in the answer. Besides the requested { links: [...] },
+// the older category-keyed shapes ({ "category": [...] } and
+// { "categories": { ... } }) are accepted, since their content is still usable.
+function collectEntries(raw: unknown, errors: string[]): RawEntry[] {
+  if (!isObject(raw)) {
+    errors.push('The answer must be a JSON object of the form { "links": [...] }');
+    return [];
+  }
+
+  if (Array.isArray(raw.links)) {
+    return raw.links.map((value, index) => ({
+      path: `links[${index}]`,
+      category: isObject(value) ? value.category : undefined,
+      value,
+    }));
+  }
+
+  const container = isObject(raw.categories) ? raw.categories : raw;
+  const entries: RawEntry[] = [];
+  for (const [category, value] of Object.entries(container)) {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => entries.push({ path: `${category}[${index}]`, category, value: item }));
+    } else if (isObject(value) && 'url' in value) {
+      // A single link where an array was expected
+      entries.push({ path: category, category, value });
+    } else {
+      errors.push(`"${category}" must be an array of links`);
+    }
+  }
+  return entries;
+}
+
+// Checks one entry and builds the SummarizedLink, or returns the reasons it was rejected
+function validateEntry(
+  entry: RawEntry,
+  inputByCanonicalUrl: Map<string, LinkWithContext>
+): { link: SummarizedLink; canonicalUrl: string } | { errors: string[] } {
+  const { path, value } = entry;
+  if (!isObject(value)) {
+    return { errors: [`${path} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  const input = isNonEmptyString(value.url) ? inputByCanonicalUrl.get(canonicalizeUrl(value.url)) : undefined;
+  if (!isNonEmptyString(value.url)) {
+    errors.push(`${path}.url is missing`);
+  } else if (!input) {
+    errors.push(`${path}.url "${value.url}" is not one of the links you were given; copy the url exactly`);
+  }
+
+  for (const field of ['name', 'type', 'description'] as const) {
+    if (!isNonEmptyString(value[field])) {
+      errors.push(`${path}.${field} must be a non-empty string`);
+    }
+  }
+  if (typeof value.userValue !== 'string') {
+    errors.push(`${path}.userValue must be a string`);
+  }
+
+  // A single key point given as a plain string is accepted as a list of one
+  const keyPoints = typeof value.keyPoints === 'string' ? [value.keyPoints] : value.keyPoints;
+  if (!Array.isArray(keyPoints) || !keyPoints.every(point => typeof point === 'string')) {
+    errors.push(`${path}.keyPoints must be an array of strings`);
+  }
+
+  if (errors.length > 0 || !input) {
+    return { errors };
+  }
+
+  return {
+    canonicalUrl: input.canonicalUrl,
+    link: {
+      name: (value.name as string).trim(),
+      type: (value.type as string).trim(),
+      description: (value.description as string).trim(),
+      context: isNonEmptyString(value.context) ? value.context.trim() : undefined,
+      keyPoints: (keyPoints as string[]).map(point => point.trim()).filter(Boolean),
+      userValue: (value.userValue as string).trim(),
+      complexity: isNonEmptyString(value.complexity) ? value.complexity.trim() : undefined,
+      url: input.url, // The extracted URL, not the model's copy of it
+    },
+  };
+}
+
+// Validates a parsed answer against the links of the batch it was asked about.
+// Valid entries are kept (grouped by taxonomy id); everything else is reported.
+export function validateSummaryResponse(raw: unknown, inputLinks: LinkWithContext[]): ValidationResult {
+  const errors: string[] = [];
+  const inputByCanonicalUrl = new Map(inputLinks.map(link => [link.canonicalUrl, link]));
+  const seenUrls = new Set<string>();
+  const summaryJson: SummaryJson = {};
+
+  for (const entry of collectEntries(raw, errors)) {
+    const result = validateEntry(entry, inputByCanonicalUrl);
+    if ('errors' in result) {
+      errors.push(...result.errors);
+      continue;
+    }
+    if (seenUrls.has(result.canonicalUrl)) {
+      continue; // The same link twice; the first entry wins
+    }
+    seenUrls.add(result.canonicalUrl);
+
+    const category = resolveCategoryId(typeof entry.category === 'string' ? entry.category : '');
+    summaryJson[category] = [...(summaryJson[category] || []), result.link];
+  }
+
+  return { summaryJson, errors };
+}
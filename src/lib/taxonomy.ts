@@ -0,0 +1,65 @@
+// The fixed set of categories links are sorted into. The list, its order and
+// the wording shown to the model live in src/config/taxonomy.json.
+
+import taxonomyConfig from '../config/taxonomy.json';
+import type { SummaryLanguage } from './languages';
+
+export interface TaxonomyCategory {
+  id: string;          // Stable key used in SummaryJson and the cache
+  name: string;        // Heading shown in the summary (Hebrew)
+  names?: Partial<Record<SummaryLanguage, string>>; // The heading in other languages
+  emoji: string;
+  description: string; // Tells the model what belongs here
+  examples: string[];
+}
+
+// Catch-all for links that fit no other category; always rendered last
+export const OTHER_CATEGORY_ID = 'other';
+
+const OTHER_CATEGORY: TaxonomyCategory = {
+  id: OTHER_CATEGORY_ID,
+  name: 'אחר',
+  emoji: '📌',
+  description: 'כל מה שלא מתאים לאף קטגוריה אחרת',
+  examples: [],
+};
+
+// Categories in display order, with "other" moved to (or added at) the end
+export const TAXONOMY: TaxonomyCategory[] = [
+  ...taxonomyConfig.categories.filter(category => category.id !== OTHER_CATEGORY_ID),
+  taxonomyConfig.categories.find(category => category.id === OTHER_CATEGORY_ID) || OTHER_CATEGORY,
+];
+
+export const CATEGORY_IDS = TAXONOMY.map(category => category.id);
+
+// Lower-cased letters and digits only, so "*כלי AI ופלטפורמות*" matches its category
+function normalizeName(name: string): string {
+  return name.replace(/[^\p{L}\p{N}]+/gu, ' ').trim().toLowerCase();
+}
+
+// Maps a category id or name (e.g. from an older cache entry) to a taxonomy id;
+// anything unknown goes to "other"
+export function resolveCategoryId(idOrName: string): string {
+  if (CATEGORY_IDS.includes(idOrName)) {
+    return idOrName;
+  }
+  const normalized = normalizeName(idOrName);
+  const match = TAXONOMY.find(category => normalizeName(category.name) === normalized || normalizeName(category.id) === normalized);
+  return match ? match.id : OTHER_CATEGORY_ID;
+}
+
+export function getCategory(id: string): TaxonomyCategory {
+  return TAXONOMY.find(category => category.id === resolveCategoryId(id)) || OTHER_CATEGORY;
+}
+
+// Heading text of a category, e.g. "🤖 כלי AI ופלטפורמות"
+export function categoryTitle(id: string): string {
+  const category = getCategory(id);
+  return category.emoji ? `${category.emoji} ${category.name}` : category.name;
+}
+
+// The category's name in a digest language, falling back to the Hebrew name
+export function categoryName(id: string, language: SummaryLanguage): string {
+  const category = getCategory(id);
+  return category.names?.[language] || category.name;
+}
@@ -0,0 +1,145 @@
+// A small Handlebars-style template engine for the summary templates:
+//   {{name}}                       a value, escaped for the output format
+//   {{#if name}}...{{/if}}         shown when the value is set (non-empty)
+//   {{#unless name}}...{{/unless}} shown when it is not
+//   {{#each name}}...{{/each}}     repeated per item of a list, {{this}} is the item
+//   {{#bold}}...{{/bold}}, {{#title}}...{{/title}}, {{#heading}}...{{/heading}}
+//                                  emphasis and headings in the format's markup
+// A line holding nothing but a section tag is dropped with its line break, so
+// sections can sit on lines of their own.
+
+export type SectionKind = 'if' | 'unless' | 'each' | 'bold' | 'title' | 'heading';
+
+const SECTIONS_WITH_VALUE: SectionKind[] = ['if', 'unless', 'each'];
+const MARKUP_SECTIONS: SectionKind[] = ['bold', 'title', 'heading'];
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; name: string }
+  | { type: 'section'; kind: SectionKind; name?: string; children: TemplateNode[] };
+
+// Text that is already in the output format's markup and must not be escaped
+export class RawText {
+  constructor(public readonly text: string) {}
+}
+
+export type TemplateValue = string | number | boolean | string[] | RawText | undefined;
+export type TemplateContext = Record<string, TemplateValue>;
+
+export interface TemplateMarkup {
+  escape(text: string): string;
+  bold(text: string): string;
+  heading(text: string, level: 1 | 2): string;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([\w.]+)(?:\s+([\w.]+))?\s*\}\}/g;
+const STANDALONE_SECTION_LINE = /^[ \t]*(\{\{\s*[#/][^}]*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+// Parses a template, throwing an Error that describes the first problem found
+export function parseTemplate(source: string): TemplateNode[] {
+  const template = source.replace(STANDALONE_SECTION_LINE, '$1');
+  const root: TemplateNode[] = [];
+  const stack: { kind: SectionKind; children: TemplateNode[] }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].children : root);
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, prefix, word, argument] = match;
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', text: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + tag.length;
+
+    if (prefix === '#') {
+      const kind = word as SectionKind;
+      if (![...SECTIONS_WITH_VALUE, ...MARKUP_SECTIONS].includes(kind)) {
+        throw new Error(`Unknown section {{#${word}}}`);
+      }
+      if (SECTIONS_WITH_VALUE.includes(kind) && !argument) {
+        throw new Error(`{{#${kind}}} needs a field name, e.g. {{#${kind} description}}`);
+      }
+      const section: TemplateNode = { type: 'section', kind, name: argument, children: [] };
+      current().push(section);
+      stack.push(section);
+    } else if (prefix === '/') {
+      const open = stack.pop();
+      if (!open || open.kind !== word) {
+        throw new Error(`{{/${word}}} does not close an open {{#${word}}}`);
+      }
+    } else {
+      if (argument) {
+        throw new Error(`Unexpected "${argument}" in {{${word} ${argument}}}`);
+      }
+      current().push({ type: 'value', name: word });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: 'text', text: template.slice(lastIndex) });
+  }
+  if (stack.length > 0) {
+    throw new Error(`{{#${stack[stack.length - 1].kind}}} is never closed`);
+  }
+  return root;
+}
+
+// Field names a template refers to ("this" excluded), for validation
+export function templateFields(nodes: TemplateNode[]): string[] {
+  const fields = new Set<string>();
+  const visit = (node: TemplateNode) => {
+    if (node.type === 'value' && node.name !== 'this') fields.add(node.name);
+    if (node.type === 'section') {
+      if (node.name) fields.add(node.name);
+      node.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+  return [...fields];
+}
+
+function isSet(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof RawText) return value.text.length > 0;
+  return value !== undefined && value !== false && value !== '';
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateValue[], context: TemplateContext, markup: TemplateMarkup): string {
+  // "this" is the current list item; other names come from the context
+  const lookup = (name: string): TemplateValue => (name === 'this' ? scopes[scopes.length - 1] : context[name]);
+
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return markup.escape(node.text);
+    }
+    if (node.type === 'value') {
+      const value = lookup(node.name);
+      if (value instanceof RawText) return value.text;
+      if (Array.isArray(value)) return markup.escape(value.join(', '));
+      return value === undefined || value === false ? '' : markup.escape(String(value));
+    }
+
+    const inner = () => renderNodes(node.children, scopes, context, markup);
+    switch (node.kind) {
+      case 'if':
+        return isSet(lookup(node.name as string)) ? inner() : '';
+      case 'unless':
+        return isSet(lookup(node.name as string)) ? '' : inner();
+      case 'each': {
+        const items = lookup(node.name as string);
+        return Array.isArray(items)
+          ? items.map(item => renderNodes(node.children, [...scopes, item], context, markup)).join('')
+          : '';
+      }
+      case 'bold':
+        return markup.bold(inner());
+      case 'title':
+        return markup.heading(inner(), 1);
+      case 'heading':
+        return markup.heading(inner(), 2);
+    }
+  }).join('');
+}
+
+export function renderTemplate(nodes: TemplateNode[], context: TemplateContext, markup: TemplateMarkup): string {
+  return renderNodes(nodes, [], context, markup);
+}
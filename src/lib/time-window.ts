@@ -0,0 +1,145 @@
+// Resolution of the time window a summary covers. Besides the original
+// whole-day start/end dates, the analyze API accepts rolling presets such as
+// "last 24 hours", so the daily summary workflow does not need date picking.
+
+import {
+  calendarDateInZone,
+  CalendarDate,
+  endOfDayInZone,
+  parseCalendarDate,
+  startOfDayInZone,
+  zonedTimeToUtc,
+} from './timezone';
+
+export type TimeWindowKind =
+  | 'dates'            // Whole days from startDate to endDate (the original behavior)
+  | 'last24h'          // The 24 hours before now
+  | 'yesterday'        // The previous calendar day
+  | 'thisWeek'         // From the start of the current week until now
+  | 'sinceLastSummary' // From the end of the previous summary until now
+  | 'custom';          // Explicit from/to instants, with time of day
+
+export const TIME_WINDOW_KINDS: TimeWindowKind[] = ['dates', 'last24h', 'yesterday', 'thisWeek', 'sinceLastSummary', 'custom'];
+
+// Raw window parameters as received from the client
+export interface TimeWindowParams {
+  window?: string | null;
+  startDate?: string | null; // Calendar dates for "dates"
+  endDate?: string | null;
+  from?: string | null;      // Date-times for "custom"
+  to?: string | null;
+  since?: string | null;     // End of the previous summary for "sinceLastSummary"
+}
+
+export interface ResolvedTimeWindow {
+  kind: TimeWindowKind;
+  start: Date | null; // Null means unbounded
+  end: Date | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Weeks in Israel start on Sunday
+const WEEK_STARTS_ON = 0;
+
+// Shifts a calendar date by a number of days
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+// Parses a date-time sent by the client. Values with an explicit offset ("Z",
+// "+03:00") are instants; bare "yyyy-mm-ddThh:mm" values are wall-clock times
+// in the given timezone.
+export function parseDateTime(value: string, timeZone: string): Date | null {
+  const wallClock = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (wallClock) {
+    const [, year, month, day, hour, minute, second] = wallClock;
+    return zonedTimeToUtc({
+      year: parseInt(year, 10),
+      month: parseInt(month, 10),
+      day: parseInt(day, 10),
+      hour: parseInt(hour, 10),
+      minute: parseInt(minute, 10),
+      second: second ? parseInt(second, 10) : 0,
+    }, timeZone);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Resolves the window parameters into concrete instants
+export function resolveTimeWindow(
+  params: TimeWindowParams,
+  timeZone: string,
+  now: Date = new Date()
+): ResolvedTimeWindow | { error: string } {
+  const kind = (params.window || 'dates') as TimeWindowKind;
+
+  switch (kind) {
+    case 'dates': {
+      let start: Date | null = null;
+      let end: Date | null = null;
+
+      if (params.startDate) {
+        const startDay = parseCalendarDate(params.startDate, timeZone);
+        if (!startDay) {
+          return { error: `Invalid start date: ${params.startDate}` };
+        }
+        start = startOfDayInZone(startDay, timeZone);
+      }
+
+      if (params.endDate) {
+        const endDay = parseCalendarDate(params.endDate, timeZone);
+        if (!endDay) {
+          return { error: `Invalid end date: ${params.endDate}` };
+        }
+        end = endOfDayInZone(endDay, timeZone);
+      }
+
+      if (start && end && start > end) {
+        return { error: 'Date window starts after it ends' };
+      }
+      return { kind, start, end };
+    }
+
+    case 'last24h':
+      return { kind, start: new Date(now.getTime() - 24 * HOUR_MS), end: now };
+
+    case 'yesterday': {
+      const yesterday = addDays(calendarDateInZone(now, timeZone), -1);
+      return { kind, start: startOfDayInZone(yesterday, timeZone), end: endOfDayInZone(yesterday, timeZone) };
+    }
+
+    case 'thisWeek': {
+      const today = calendarDateInZone(now, timeZone);
+      const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+      const weekStart = addDays(today, -((weekday - WEEK_STARTS_ON + 7) % 7));
+      return { kind, start: startOfDayInZone(weekStart, timeZone), end: now };
+    }
+
+    case 'sinceLastSummary': {
+      const since = params.since ? parseDateTime(params.since, timeZone) : null;
+      if (!since) {
+        return { error: 'No previous summary time was provided for "since last summary"' };
+      }
+      return { kind, start: since, end: now };
+    }
+
+    case 'custom': {
+      const start = params.from ? parseDateTime(params.from, timeZone) : null;
+      const end = params.to ? parseDateTime(params.to, timeZone) : null;
+      if ((params.from && !start) || (params.to && !end)) {
+        return { error: `Invalid custom window: ${params.from || '-'} to ${params.to || '-'}` };
+      }
+      if (start && end && start > end) {
+        return { error: 'Custom window starts after it ends' };
+      }
+      return { kind, start, end };
+    }
+
+    default:
+      return { error: `Unknown window: ${params.window}. Expected one of ${TIME_WINDOW_KINDS.join(', ')}` };
+  }
+}
@@ -0,0 +1,208 @@
+// Detection and parsing of the message timestamps found in WhatsApp exports.
+// The layout depends on the phone's locale, so the date order (day or month
+// first) and the clock (12 or 24 hours) are inferred once per export file.
+//
+// Supported variants include:
+// [25/03/2024, 14:30:45]       iOS, day first
+// [25.03.24, 14:30:45]         iOS, dotted short year
+// [3/25/24, 2:30:45 PM]        iOS, US English
+// 25/03/2024, 14:30 -          Android
+// 22.9.2024, 14:33 -           Android, dotted
+// 3/25/24, 2:30 PM -           Android, US English
+
+export type DateOrder = 'DMY' | 'MDY';
+export type ClockFormat = '24h' | '12h';
+
+export interface TimestampFormat {
+  dateOrder: DateOrder;
+  clock: ClockFormat;
+}
+
+// The wall-clock time written in the export, before any timezone is applied
+export interface WallClockTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;  // 0-23
+  minute: number;
+  second: number;
+}
+
+// Components of a timestamp as written, before the date order is known
+interface RawTimestamp {
+  first: number;
+  second: number;
+  year: number;
+  hour: number;
+  minute: number;
+  seconds: number;
+  meridiem?: 'AM' | 'PM';
+  length: number; // Length of the matched prefix
+}
+
+export const defaultTimestampFormat: TimestampFormat = { dateOrder: 'DMY', clock: '24h' };
+
+// Matches the timestamp prefix of a message line. The space before AM/PM may be
+// a narrow no-break space in newer iOS exports, and some locales drop the comma.
+export const timestampPattern = /^\[?(\d{1,2})[.\/\-](\d{1,2})[.\/\-](\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AaPp])\.?\s?[Mm]\.?)?\]?(?:\s*-)?\s*/;
+
+// How many header lines are sampled when detecting the format of a file
+const DETECTION_SAMPLE_SIZE = 2000;
+
+// Reads the raw components of a timestamp at the start of a line
+function readRawTimestamp(line: string): RawTimestamp | null {
+  const match = line.match(timestampPattern);
+  if (!match) {
+    return null;
+  }
+
+  const [, firstStr, secondStr, yearStr, hourStr, minuteStr, secondsStr, meridiem] = match;
+  return {
+    first: parseInt(firstStr, 10),
+    second: parseInt(secondStr, 10),
+    year: parseInt(yearStr, 10),
+    hour: parseInt(hourStr, 10),
+    minute: parseInt(minuteStr, 10),
+    seconds: secondsStr ? parseInt(secondsStr, 10) : 0,
+    meridiem: meridiem ? (meridiem.toUpperCase() === 'P' ? 'PM' : 'AM') : undefined,
+    length: match[0].length,
+  };
+}
+
+// Turns raw components into a validated wall-clock time for the given format
+function toWallClock(raw: RawTimestamp, format: TimestampFormat): WallClockTime | null {
+  const day = format.dateOrder === 'DMY' ? raw.first : raw.second;
+  const month = format.dateOrder === 'DMY' ? raw.second : raw.first;
+
+  // Handle 2-digit years
+  const year = raw.year < 100 ? 2000 + raw.year : raw.year;
+
+  let hour = raw.hour;
+  if (format.clock === '12h' || raw.meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    // 12 AM is midnight and 12 PM is noon
+    if (raw.meridiem === 'AM' && hour === 12) hour = 0;
+    if (raw.meridiem === 'PM' && hour !== 12) hour += 12;
+  }
+
+  // Validate basic ranges
+  if (month < 1 || month > 12) {
+    return null;
+  }
+
+  // Get days in the specific month
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day < 1 || day > daysInMonth) {
+    return null;
+  }
+
+  if (hour > 23 || raw.minute > 59 || raw.seconds > 59) {
+    return null;
+  }
+
+  return { year, month, day, hour, minute: raw.minute, second: raw.seconds };
+}
+
+// Sortable number for a wall-clock time, used to check chronological order
+function wallClockKey(time: WallClockTime): number {
+  return Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+}
+
+// How well a date order fits the samples: invalid or out-of-order timestamps
+// lower the score, and spread is the total time between consecutive messages
+interface DateOrderScore {
+  score: number;
+  spread: number;
+}
+
+// Scores a date order by how many timestamps are valid and in chronological order
+function scoreDateOrder(samples: RawTimestamp[], dateOrder: DateOrder, clock: ClockFormat): DateOrderScore {
+  let score = 0;
+  let spread = 0;
+  let previous: number | null = null;
+
+  for (const sample of samples) {
+    const time = toWallClock(sample, { dateOrder, clock });
+    if (!time) {
+      // An impossible date rules this interpretation out almost completely
+      score -= 1000;
+      continue;
+    }
+
+    const key = wallClockKey(time);
+    if (previous !== null) {
+      if (key < previous) {
+        score -= 1;
+      }
+      spread += Math.abs(key - previous);
+    }
+    previous = key;
+  }
+
+  return { score, spread };
+}
+
+// Infers the date order and clock of an export from all its message headers
+export function detectTimestampFormat(lines: string[]): TimestampFormat {
+  const samples: RawTimestamp[] = [];
+  for (const line of lines) {
+    const raw = readRawTimestamp(line);
+    if (raw) {
+      samples.push(raw);
+      if (samples.length >= DETECTION_SAMPLE_SIZE) break;
+    }
+  }
+
+  if (samples.length === 0) {
+    return defaultTimestampFormat;
+  }
+
+  // Any AM/PM marker means the phone was set to a 12-hour clock
+  const clock: ClockFormat = samples.some(sample => sample.meridiem) ? '12h' : '24h';
+
+  // Pick the date order that keeps the values in range and the messages in order.
+  // When both fit (all days up to 12), the one with messages closer together is
+  // more plausible; when that ties too, a 12-hour clock hints at a US phone.
+  const dmy = scoreDateOrder(samples, 'DMY', clock);
+  const mdy = scoreDateOrder(samples, 'MDY', clock);
+  let dateOrder: DateOrder;
+  if (mdy.score !== dmy.score) {
+    dateOrder = mdy.score > dmy.score ? 'MDY' : 'DMY';
+  } else if (mdy.spread !== dmy.spread) {
+    dateOrder = mdy.spread < dmy.spread ? 'MDY' : 'DMY';
+  } else {
+    dateOrder = clock === '12h' ? 'MDY' : 'DMY';
+  }
+
+  console.log(`Detected timestamp format: ${dateOrder}, ${clock} (scores DMY=${dmy.score}, MDY=${mdy.score}, samples=${samples.length})`);
+  return { dateOrder, clock };
+}
+
+// Parses the timestamp at the start of a line. Returns the wall-clock time and
+// the length of the prefix so callers can strip it from the message.
+export function parseTimestamp(
+  line: string,
+  format: TimestampFormat = defaultTimestampFormat
+): { time: WallClockTime; length: number } | null {
+  const raw = readRawTimestamp(line);
+  if (!raw) {
+    return null;
+  }
+
+  const time = toWallClock(raw, format);
+  if (!time) {
+    console.log(`Invalid timestamp for format ${format.dateOrder}/${format.clock}: "${line.substring(0, raw.length).trim()}"`);
+    return null;
+  }
+
+  // Validate year is reasonable (not too old or in future)
+  const currentYear = new Date().getFullYear();
+  if (time.year < currentYear - 5 || time.year > currentYear + 1) {
+    console.log(`Year ${time.year} outside reasonable range`);
+    return null;
+  }
+
+  return { time, length: raw.length };
+}
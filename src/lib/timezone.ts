@@ -0,0 +1,139 @@
+// Timezone helpers built on Intl, so that message times, date filters and the
+// summary header all refer to the community manager's wall clock instead of UTC.
+
+import type { WallClockTime } from './timestamp-format';
+
+// Used when the client did not send a timezone (keeps the historical UTC behavior)
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || 'UTC';
+
+// A calendar date in a specific timezone
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+// Formatters are relatively expensive to create, so keep one per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Check if a string is an IANA timezone the runtime knows about
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Resolves a timezone from user input, falling back to the default
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (isValidTimeZone(timeZone)) {
+    return timeZone;
+  }
+  if (timeZone) {
+    console.warn(`Unknown timezone "${timeZone}", using ${DEFAULT_TIME_ZONE}`);
+  }
+  return DEFAULT_TIME_ZONE;
+}
+
+// The wall-clock time of an instant in the given timezone
+export function toWallClockInZone(date: Date, timeZone: string): WallClockTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const time = toWallClockInZone(date, timeZone);
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock time in the given timezone to the instant it represents
+export function zonedTimeToUtc(time: WallClockTime, timeZone: string): Date {
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+
+  // Two passes settle the offset even when the guess lands across a DST change
+  let offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  offset = getTimeZoneOffset(new Date(asUtc - offset), timeZone);
+  return new Date(asUtc - offset);
+}
+
+// The calendar date of an instant in the given timezone
+export function calendarDateInZone(date: Date, timeZone: string): CalendarDate {
+  const { year, month, day } = toWallClockInZone(date, timeZone);
+  return { year, month, day };
+}
+
+// Start of the day (00:00:00.000) containing the given calendar date in the timezone
+export function startOfDayInZone(date: CalendarDate, timeZone: string): Date {
+  return zonedTimeToUtc({ ...date, hour: 0, minute: 0, second: 0 }, timeZone);
+}
+
+// End of the day (23:59:59.999) containing the given calendar date in the timezone
+export function endOfDayInZone(date: CalendarDate, timeZone: string): Date {
+  const end = zonedTimeToUtc({ ...date, hour: 23, minute: 59, second: 59 }, timeZone);
+  return new Date(end.getTime() + 999);
+}
+
+// Parses a date filter sent by the client. Plain "yyyy-mm-dd" strings are
+// calendar dates; full ISO timestamps are read in the given timezone.
+export function parseCalendarDate(value: string, timeZone: string): CalendarDate | null {
+  const plain = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (plain) {
+    return { year: parseInt(plain[1], 10), month: parseInt(plain[2], 10), day: parseInt(plain[3], 10) };
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  return calendarDateInZone(date, timeZone);
+}
+
+// Utility function to check if two instants fall on the same day in the timezone
+export function isSameDayInZone(date1: Date, date2: Date, timeZone: string): boolean {
+  const a = calendarDateInZone(date1, timeZone);
+  const b = calendarDateInZone(date2, timeZone);
+  return a.year === b.year && a.month === b.month && a.day === b.day;
+}
+
+// Format date for display in the summary (DD.MM format)
+export function formatDateForSummary(date: Date, timeZone: string): string {
+  const { month, day } = calendarDateInZone(date, timeZone);
+  return `${day.toString().padStart(2, '0')}.${month.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,59 @@
+// Top-level domains accepted for links written without a scheme (e.g.
+// "example.co.il"). A bare "name.xx" token is only treated as a link when its
+// last label is a real TLD, which keeps file names like "document.pdf" and
+// words like "node.js" or "next.config" out. Covers every country code TLD and
+// the generic TLDs that show up in practice; links with http(s):// are accepted
+// regardless of this list.
+
+export const KNOWN_TLDS: ReadonlySet<string> = new Set([
+  'ac', 'academy', 'ad', 'ae', 'aero', 'af', 'ag', 'agency', 'ai', 'al', 'am', 'amazon',
+  'amsterdam', 'android', 'ao', 'app', 'apple', 'aq', 'ar', 'art', 'as', 'asia', 'at', 'au',
+  'audio', 'aw', 'ax', 'az', 'ba', 'baby', 'bank', 'bar', 'bb', 'bd', 'be', 'beauty', 'berlin',
+  'bf', 'bg', 'bh', 'bi', 'bio', 'biz', 'bj', 'blog', 'bm', 'bn', 'bo', 'bot', 'boutique', 'br',
+  'bs', 'bt', 'build', 'business', 'bw', 'by', 'bz', 'ca', 'cafe', 'capital', 'care', 'careers',
+  'cash', 'cat', 'cc', 'cd', 'center', 'ceo', 'cf', 'cg', 'ch', 'charity', 'chat', 'chrome',
+  'church', 'ci', 'city', 'ck', 'cl', 'clinic', 'cloud', 'club', 'cm', 'cn', 'co', 'codes',
+  'coffee', 'com', 'community', 'company', 'consulting', 'cool', 'coop', 'coupons', 'courses',
+  'cr', 'credit', 'cu', 'cv', 'cw', 'cx', 'cy', 'cz', 'dance', 'dating', 'de', 'deals', 'design',
+  'dev', 'digital', 'discount', 'dj', 'dk', 'dm', 'do', 'dog', 'domains', 'dz', 'earth', 'ec',
+  'eco', 'edu', 'education', 'ee', 'eg', 'email', 'energy', 'engineering', 'er', 'es', 'estate',
+  'et', 'eu', 'events', 'exchange', 'expert', 'family', 'farm', 'fashion', 'fi', 'film', 'finance',
+  'fit', 'fj', 'fk', 'fm', 'fo', 'food', 'foundation', 'fr', 'fun', 'fund', 'fyi', 'ga', 'gallery',
+  'game', 'games', 'gay', 'gd', 'ge', 'gf', 'gg', 'gh', 'gi', 'gift', 'gifts', 'gl', 'global',
+  'gm', 'gmbh', 'gn', 'google', 'gov', 'gp', 'gq', 'gr', 'group', 'gs', 'gt', 'gu', 'guide',
+  'guru', 'gw', 'gy', 'health', 'help', 'hk', 'hm', 'hn', 'homes', 'host', 'hosting', 'house',
+  'how', 'hr', 'ht', 'hu', 'icu', 'id', 'ie', 'il', 'im', 'in', 'inc', 'info', 'ink', 'institute',
+  'insurance', 'int', 'international', 'investments', 'io', 'iq', 'ir', 'is', 'it', 'je', 'jm',
+  'jo', 'jobs', 'jp', 'ke', 'kg', 'kh', 'ki', 'kids', 'km', 'kn', 'kp', 'kr', 'kw', 'ky', 'kz',
+  'la', 'land', 'law', 'lb', 'lc', 'legal', 'li', 'life', 'link', 'live', 'lk', 'llc', 'loans',
+  'lol', 'london', 'love', 'lr', 'ls', 'lt', 'ltd', 'lu', 'luxury', 'lv', 'ly', 'ma', 'market',
+  'marketing', 'mc', 'md', 'me', 'media', 'mg', 'mh', 'miami', 'microsoft', 'mil', 'mk', 'ml',
+  'mm', 'mn', 'mo', 'mobi', 'money', 'mov', 'movie', 'mp', 'mq', 'mr', 'ms', 'mt', 'mu', 'museum',
+  'music', 'mv', 'mw', 'mx', 'my', 'mz', 'na', 'name', 'nc', 'ne', 'net', 'network', 'new', 'news',
+  'nf', 'ng', 'ngo', 'ni', 'ninja', 'nl', 'no', 'np', 'nr', 'nu', 'nyc', 'nz', 'office', 'om',
+  'one', 'online', 'org', 'pa', 'page', 'paris', 'partners', 'pe', 'pet', 'pf', 'pg', 'ph',
+  'photo', 'photos', 'pics', 'pizza', 'pk', 'pl', 'place', 'play', 'pm', 'pn', 'post', 'pr',
+  'press', 'pro', 'property', 'ps', 'pt', 'pub', 'pw', 'py', 'qa', 're', 'realestate', 'rent',
+  'report', 'review', 'reviews', 'ro', 'rs', 'ru', 'run', 'rw', 'sa', 'sale', 'sb', 'sc', 'school',
+  'sd', 'se', 'services', 'sg', 'sh', 'shop', 'shopping', 'show', 'si', 'site', 'sk', 'sl', 'sm',
+  'sn', 'so', 'social', 'software', 'solutions', 'space', 'sr', 'ss', 'st', 'store', 'studio',
+  'style', 'su', 'support', 'sv', 'sx', 'sy', 'systems', 'sz', 'tax', 'tc', 'td', 'team', 'tech',
+  'tel', 'tf', 'tg', 'th', 'tickets', 'tips', 'tj', 'tk', 'tl', 'tm', 'tn', 'to', 'today', 'tokyo',
+  'tools', 'top', 'tr', 'trade', 'trading', 'training', 'travel', 'tt', 'tube', 'tv', 'tw', 'tz',
+  'ua', 'ug', 'uk', 'university', 'us', 'uy', 'uz', 'va', 'vc', 've', 'vegas', 'ventures', 'vet',
+  'vg', 'vi', 'video', 'vip', 'vn', 'vu', 'website', 'wf', 'wiki', 'windows', 'work', 'works',
+  'world', 'ws', 'wtf', 'xxx', 'xyz', 'ye', 'yoga', 'youtube', 'yt', 'za', 'zip', 'zm', 'zone',
+  'zw',
+]);
+
+// TLDs that are also common file extensions. Bare tokens ending in these are
+// only accepted with a "www." prefix or a path, so "README.md" or "setup.sh"
+// stay text while "www.example.md" or "cli.sh/install" are links.
+export const FILE_EXTENSION_TLDS: ReadonlySet<string> = new Set([
+  'zip', 'mov', 'md', 'sh', 'py', 'rs', 'ps', 'cs', 'pm', 'tf',
+]);
+
+// Check if a label is a known top-level domain
+export function isKnownTld(label: string): boolean {
+  return KNOWN_TLDS.has(label.toLowerCase());
+}
@@ -0,0 +1,170 @@
+// URL canonicalization, so the same link posted in different forms (with or
+// without www, with tracking parameters, as a short link) is recognized as one.
+
+// Query parameters that only track where a click came from
+const trackingParamPatterns: RegExp[] = [
+  /^utm_/i,
+  /^fbclid$/i,
+  /^gclid$/i,
+  /^dclid$/i,
+  /^msclkid$/i,
+  /^igsh(id)?$/i,
+  /^mc_(cid|eid)$/i,
+  /^_hs(enc|mi)$/i,
+  /^mkt_tok$/i,
+  /^ref_(src|url)$/i,
+  /^trk(info)?$/i,
+  /^tracking(id)?$/i,
+  /^lipi$/i,
+  /^rcm$/i,
+  /^si$/i,
+];
+
+// Parameters that are only tracking on specific sites (e.g. ?s=20&t=... on X)
+const siteTrackingParams: Record<string, string[]> = {
+  'x.com': ['s', 't'],
+  'twitter.com': ['s', 't'],
+  'youtube.com': ['pp', 'feature'],
+};
+
+// Punctuation that ends a sentence rather than a URL
+const trailingPunctuationPattern = /[.,;:!?'"»״׳…]+$/;
+
+// Strips punctuation glued to the end of a link, keeping balanced parentheses
+// (e.g. Wikipedia links) but dropping a closing one that belongs to the sentence
+export function trimTrailingPunctuation(rawUrl: string): string {
+  let url = rawUrl.trim();
+  let previous: string;
+  do {
+    previous = url;
+    url = url.replace(trailingPunctuationPattern, '');
+    if (url.endsWith(')') && (url.match(/\(/g) || []).length < (url.match(/\)/g) || []).length) {
+      url = url.slice(0, -1);
+    }
+  } while (url !== previous);
+  return url;
+}
+
+// Check if a query parameter is tracking noise for the given host
+function isTrackingParam(name: string, host: string): boolean {
+  if (trackingParamPatterns.some(pattern => pattern.test(name))) {
+    return true;
+  }
+  return (siteTrackingParams[host] || []).includes(name.toLowerCase());
+}
+
+// Rewrites known short or alternate forms to the site's main form
+function expandKnownForms(url: URL): void {
+  const host = url.hostname;
+
+  // youtu.be/ID -> youtube.com/watch?v=ID
+  if (host === 'youtu.be') {
+    const videoId = url.pathname.slice(1).split('/')[0];
+    url.hostname = 'youtube.com';
+    url.pathname = '/watch';
+    if (videoId) {
+      url.searchParams.set('v', videoId);
+    }
+    return;
+  }
+
+  // m.youtube.com shares ids with youtube.com
+  if (host === 'm.youtube.com') {
+    url.hostname = 'youtube.com';
+  }
+
+  // youtube.com/shorts/ID and /live/ID are the same video as watch?v=ID
+  if (url.hostname === 'youtube.com') {
+    const videoPath = url.pathname.match(/^\/(?:shorts|live|embed)\/([\w-]+)/);
+    if (videoPath) {
+      url.pathname = '/watch';
+      url.searchParams.set('v', videoPath[1]);
+    }
+  }
+
+  // Country and mobile subdomains of LinkedIn (il.linkedin.com, m.linkedin.com)
+  if (/^([a-z]{2}|m|mobile)\.linkedin\.com$/.test(url.hostname)) {
+    url.hostname = 'linkedin.com';
+  }
+
+  if (url.hostname === 'linkedin.com') {
+    // linkedin.com/posts/<slug>-activity-<id>-<hash> -> feed/update/urn:li:activity:<id>
+    const activity = url.pathname.match(/^\/posts\/.*?-activity-(\d+)/) || url.pathname.match(/urn:li:activity:(\d+)/);
+    if (activity) {
+      url.pathname = `/feed/update/urn:li:activity:${activity[1]}`;
+    }
+  }
+
+  if (url.hostname === 'mobile.twitter.com' || url.hostname === 'twitter.com') {
+    url.hostname = 'x.com';
+  }
+}
+
+// Returns the canonical form of a URL: no scheme, no www, no tracking
+// parameters, no fragment or trailing slash, sorted query and known short
+// forms expanded. Used as the identity of a link for deduplication.
+export function canonicalizeUrl(rawUrl: string): string {
+  const trimmed = trimTrailingPunctuation(rawUrl);
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`);
+  } catch {
+    return trimmed.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '');
+  }
+
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+  expandKnownForms(url);
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name, url.hostname))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  const path = url.pathname.replace(/\/+$/, '');
+  const port = url.port ? `:${url.port}` : '';
+
+  return `${url.hostname}${port}${path}${query}`;
+}
+
+// The URL shown to readers and fetched: the link as it was shared, without
+// trailing punctuation and tracking parameters. Its host, www, fragment (hash
+// routes, section anchors) and unencoded characters are kept; bare links get
+// https. The canonical form is only the identity of the link.
+export function displayUrl(rawUrl: string): string {
+  const trimmed = trimTrailingPunctuation(rawUrl);
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let host: string;
+  try {
+    host = new URL(withScheme).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return withScheme;
+  }
+
+  // Work on the text rather than the parsed URL, which would encode the path
+  const hashIndex = withScheme.indexOf('#');
+  const beforeHash = hashIndex === -1 ? withScheme : withScheme.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : withScheme.slice(hashIndex);
+  const queryIndex = beforeHash.indexOf('?');
+  if (queryIndex === -1) {
+    return withScheme;
+  }
+
+  const params = beforeHash.slice(queryIndex + 1).split('&').filter(param => {
+    if (!param) return false;
+    const name = param.split('=')[0];
+    try {
+      return !isTrackingParam(decodeURIComponent(name), host);
+    } catch {
+      return true;
+    }
+  });
+  const query = params.length > 0 ? `?${params.join('&')}` : '';
+  return `${beforeHash.slice(0, queryIndex)}${query}${hash}`;
+}
+
+// The domain of a URL without www, for labels and grouping
+export function getDomain(rawUrl: string): string {
+  return canonicalizeUrl(rawUrl).split(/[/?:]/)[0];
+}